@@ -33,6 +33,7 @@ import {
 } from "vscode-languageclient/node";
 
 let client: LanguageClient;
+let watching = false;
 
 class LunorDocumentRangeFormatter
 	implements DocumentRangeFormattingEditProvider
@@ -268,6 +269,25 @@ export function activate(context: ExtensionContext) {
 		})
 	);
 
+	context.subscriptions.push(
+		commands.registerCommand("lunor.toggleWatch", async () => {
+			const projectRoot = workspace.workspaceFolders?.[0].uri.fsPath;
+			if (!projectRoot) {
+				window.showErrorMessage("Projektna mapa ni najdena.");
+				return;
+			}
+			watching = await client.sendRequest<boolean>("lunor/watch", {
+				enable: !watching,
+				outDir: path.join(projectRoot, "src"),
+			});
+			window.showInformationMessage(
+				watching
+					? "Lunor watch mode started."
+					: "Lunor watch mode stopped."
+			);
+		})
+	);
+
 	context.subscriptions.push(
 		commands.registerCommand("lunor.generateReact", async () => {
 			const editor = window.activeTextEditor;
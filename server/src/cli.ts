@@ -0,0 +1,252 @@
+#!/usr/bin/env node
+import * as path from "path";
+import * as fs from "fs";
+import { DiagnosticSeverity } from "vscode-languageserver";
+import {
+	compileLunor,
+	defaultOutDir,
+	findLunorFiles,
+	findLunorRoot,
+	formatDiagnostic,
+	outputPathFor,
+	writeOutput,
+	type SourceMapMode,
+} from "./compiler";
+import { createWatchSession, watchLunorFolder } from "./watcher";
+import type { Diagnostic } from "./parser/types";
+
+const usage = `Usage: lunorc [options] [<file.lnr | dir>...]
+
+Compiles Lunor files to React (TSX). Without inputs, compiles ./lunor.
+
+Options:
+  -o, --out-dir <dir>  output folder (default: "src" next to the lunor folder)
+  --check              report diagnostics only, exit 1 if there are any
+  --stdout             print generated code instead of writing files,
+                       each under a "// <file>" line when there are several
+  -w, --watch          recompile changed files until interrupted
+  --source-map         write a .tsx.map source map next to each output
+  --inline-source-map  embed the source map in the generated file
+  -h, --help           show this help
+`;
+
+export interface CliOptions {
+	inputs: string[];
+	outDir?: string;
+	check: boolean;
+	stdout: boolean;
+	watch: boolean;
+	sourceMap?: SourceMapMode;
+	help: boolean;
+}
+
+export function parseArgs(argv: string[]): CliOptions {
+	const options: CliOptions = {
+		inputs: [],
+		check: false,
+		stdout: false,
+		watch: false,
+		help: false,
+	};
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+		switch (arg) {
+			case "-o":
+			case "--out-dir":
+				if (i + 1 >= argv.length) {
+					throw new Error(`Missing value for ${arg}`);
+				}
+				options.outDir = argv[++i];
+				break;
+			case "--check":
+				options.check = true;
+				break;
+			case "--stdout":
+				options.stdout = true;
+				break;
+			case "-w":
+			case "--watch":
+				options.watch = true;
+				break;
+			case "--source-map":
+				options.sourceMap = "file";
+				break;
+			case "--inline-source-map":
+				options.sourceMap = "inline";
+				break;
+			case "-h":
+			case "--help":
+				options.help = true;
+				break;
+			default:
+				if (arg.startsWith("--out-dir=")) {
+					options.outDir = arg.slice("--out-dir=".length);
+				} else if (arg.startsWith("-")) {
+					throw new Error(`Unknown option: ${arg}`);
+				} else {
+					options.inputs.push(arg);
+				}
+		}
+	}
+	if (options.watch && (options.check || options.stdout)) {
+		throw new Error("--watch cannot be combined with --check or --stdout");
+	}
+	return options;
+}
+
+// The Lunor root of a directory input: the closest enclosing `lunor` folder,
+// as for the files in it, or else the directory itself
+function directoryRoot(dir: string): string {
+	return findLunorRoot(path.join(dir, "index.lnr"));
+}
+
+// Expand inputs into (file, lunorRoot) pairs
+function collectFiles(inputs: string[]): { file: string; root: string }[] {
+	const files: { file: string; root: string }[] = [];
+	for (const input of inputs) {
+		const abs = path.resolve(input);
+		if (!fs.existsSync(abs)) {
+			throw new Error(`No such file or directory: ${input}`);
+		}
+		if (fs.statSync(abs).isDirectory()) {
+			const root = directoryRoot(abs);
+			for (const file of findLunorFiles(abs)) {
+				files.push({ file, root });
+			}
+		} else {
+			files.push({ file: abs, root: findLunorRoot(abs) });
+		}
+	}
+	return files;
+}
+
+function relative(file: string): string {
+	return path.relative(process.cwd(), file) || file;
+}
+
+// Print diagnostics to stderr and return the path used to display the file
+function printDiagnostics(file: string, diagnostics: Diagnostic[]): string {
+	const displayPath = relative(file);
+	for (const diag of diagnostics) {
+		process.stderr.write(formatDiagnostic(displayPath, diag) + "\n");
+	}
+	return displayPath;
+}
+
+// Compile every Lunor root once, then keep recompiling on changes
+function startWatching(
+	files: { file: string; root: string }[],
+	options: CliOptions
+): void {
+	const roots = Array.from(new Set(files.map((f) => f.root)));
+	for (const root of roots) {
+		const session = createWatchSession({
+			root,
+			outDir: options.outDir
+				? path.resolve(options.outDir)
+				: defaultOutDir(root),
+			sourceMap: options.sourceMap,
+			onCompiled: (file, outputFile, diagnostics) => {
+				printDiagnostics(file, diagnostics);
+				process.stdout.write(
+					`${relative(file)} -> ${relative(outputFile)}\n`
+				);
+			},
+			onRemoved: (file, outputFile) => {
+				process.stdout.write(
+					`${relative(file)} removed, deleted ${relative(
+						outputFile
+					)}\n`
+				);
+			},
+		});
+		session.compileAll();
+		watchLunorFolder(session, root, (err) =>
+			process.stderr.write(`lunorc: ${err.message}\n`)
+		);
+		process.stdout.write(`Watching ${relative(root)} for changes...\n`);
+	}
+}
+
+export function run(argv: string[]): number {
+	let options: CliOptions;
+	try {
+		options = parseArgs(argv);
+	} catch (err) {
+		process.stderr.write(`lunorc: ${(err as Error).message}\n\n${usage}`);
+		return 2;
+	}
+	if (options.help) {
+		process.stdout.write(usage);
+		return 0;
+	}
+
+	let files: { file: string; root: string }[];
+	try {
+		files = collectFiles(
+			options.inputs.length ? options.inputs : ["lunor"]
+		);
+	} catch (err) {
+		process.stderr.write(`lunorc: ${(err as Error).message}\n`);
+		return 2;
+	}
+	if (files.length === 0) {
+		process.stderr.write("lunorc: no .lnr files found\n");
+		return 2;
+	}
+
+	if (options.watch) {
+		startWatching(files, options);
+		return 0;
+	}
+
+	let diagnosticCount = 0;
+	let errorCount = 0;
+	for (const { file, root } of files) {
+		const text = fs.readFileSync(file, "utf8");
+		const outDir = options.outDir
+			? path.resolve(options.outDir)
+			: defaultOutDir(root);
+		const outputFile = outputPathFor(file, root, outDir);
+		// a sidecar map cannot go to stdout, so it is inlined there
+		const sourceMapMode =
+			options.stdout && options.sourceMap ? "inline" : options.sourceMap;
+		const { code, map, diagnostics } = compileLunor(
+			text,
+			root,
+			sourceMapMode && {
+				mode: sourceMapMode,
+				sourceFile: file,
+				outputFile,
+			}
+		);
+		const displayPath = printDiagnostics(file, diagnostics);
+		diagnosticCount += diagnostics.length;
+		errorCount += diagnostics.filter(
+			(d) => d.severity === DiagnosticSeverity.Error
+		).length;
+		if (options.check) {
+			continue;
+		}
+		if (options.stdout) {
+			// a banner tells the files apart when there are several
+			if (files.length > 1) {
+				process.stdout.write(`// ${displayPath}\n`);
+			}
+			process.stdout.write(code.endsWith("\n") ? code : code + "\n");
+			continue;
+		}
+		writeOutput(outputFile, code, map);
+		process.stdout.write(`${displayPath} -> ${relative(outputFile)}\n`);
+	}
+
+	if (options.check) {
+		return diagnosticCount > 0 ? 1 : 0;
+	}
+	return errorCount > 0 ? 1 : 0;
+}
+
+// Run only when executed directly
+if (require.main === module) {
+	process.exitCode = run(process.argv.slice(2));
+}
@@ -0,0 +1,168 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as glob from "fast-glob";
+import { DiagnosticSeverity } from "vscode-languageserver";
+import {
+	generateReactCode,
+	generateReactCodeWithSourceMap,
+	parseLunor,
+} from "./parser/lunorParser";
+import type { AstNode } from "./parser/ast";
+import type { Diagnostic, ParentComponent } from "./parser/types";
+
+// "inline" embeds the map as a data URL, "file" writes a `.tsx.map` sidecar
+export type SourceMapMode = "inline" | "file";
+
+export interface SourceMapOptions {
+	mode: SourceMapMode;
+	sourceFile: string;
+	outputFile: string;
+}
+
+export interface CompileResult {
+	ast: AstNode[];
+	code: string;
+	// source map JSON to write next to the output ("file" mode only)
+	map?: string;
+	diagnostics: Diagnostic[];
+	component: ParentComponent | null;
+}
+
+/**
+ * Parse a Lunor source and generate its React (TSX) counterpart.
+ * `workspaceRoot` is the `lunor/` folder used to resolve component imports.
+ */
+export function compileLunor(
+	text: string,
+	workspaceRoot: string,
+	sourceMap?: SourceMapOptions
+): CompileResult {
+	const { ast, diagnostics, component, imports } = parseLunor(text);
+	if (!sourceMap) {
+		const code = generateReactCode(ast, component, workspaceRoot, imports);
+		return { ast, code, diagnostics, component };
+	}
+
+	const outputName = path.basename(sourceMap.outputFile);
+	const { code, map } = generateReactCodeWithSourceMap(
+		ast,
+		component,
+		workspaceRoot,
+		imports,
+		{
+			file: outputName,
+			source: path
+				.relative(
+					path.dirname(sourceMap.outputFile),
+					sourceMap.sourceFile
+				)
+				.replace(/\\/g, "/"),
+			sourceContent: text,
+		}
+	);
+	const json = JSON.stringify(map);
+	if (sourceMap.mode === "inline") {
+		const data = Buffer.from(json, "utf8").toString("base64");
+		return {
+			ast,
+			code: `${code}//# sourceMappingURL=data:application/json;charset=utf-8;base64,${data}\n`,
+			diagnostics,
+			component,
+		};
+	}
+	return {
+		ast,
+		code: `${code}//# sourceMappingURL=${outputName}.map\n`,
+		map: json,
+		diagnostics,
+		component,
+	};
+}
+
+/**
+ * Find every `.lnr` file under the given folder.
+ */
+export function findLunorFiles(root: string): string[] {
+	const pattern = path.join(root, "**/*.lnr").replace(/\\/g, "/");
+	return glob.sync(pattern, { dot: false }).map((f) => path.resolve(f));
+}
+
+/**
+ * Resolve the Lunor root folder for a single file: the closest ancestor
+ * named `lunor`, or the folder that contains the file.
+ */
+export function findLunorRoot(file: string): string {
+	let dir = path.dirname(path.resolve(file));
+	while (dir !== path.dirname(dir)) {
+		if (path.basename(dir).toLowerCase() === "lunor") {
+			return dir;
+		}
+		dir = path.dirname(dir);
+	}
+	return path.dirname(path.resolve(file));
+}
+
+/**
+ * Default output folder: `src` next to the Lunor root, the same layout the
+ * `lunor.processAllFiles` command produces.
+ */
+export function defaultOutDir(lunorRoot: string): string {
+	return path.join(path.dirname(lunorRoot), "src");
+}
+
+/**
+ * Map `lunor/pages/Home.lnr` to `<outDir>/pages/Home.tsx`.
+ */
+export function outputPathFor(
+	file: string,
+	lunorRoot: string,
+	outDir: string
+): string {
+	const parsed = path.parse(path.relative(lunorRoot, file));
+	return path.join(outDir, parsed.dir, parsed.name + ".tsx");
+}
+
+/**
+ * Write generated code (and its source map sidecar, if any), creating the
+ * output folder if needed.
+ */
+export function writeOutput(
+	outputFile: string,
+	code: string,
+	map?: string
+): void {
+	const outputDir = path.dirname(outputFile);
+	if (!fs.existsSync(outputDir)) {
+		fs.mkdirSync(outputDir, { recursive: true });
+	}
+	fs.writeFileSync(outputFile, code, "utf-8");
+	if (map) {
+		fs.writeFileSync(outputFile + ".map", map, "utf-8");
+	}
+}
+
+function severityLabel(severity: number): string {
+	switch (severity) {
+		case DiagnosticSeverity.Error:
+			return "error";
+		case DiagnosticSeverity.Warning:
+			return "warning";
+		case DiagnosticSeverity.Information:
+			return "info";
+		default:
+			return "hint";
+	}
+}
+
+/**
+ * Format a diagnostic as `file:line:col: severity: message [code]`
+ * with 1-based line and column.
+ */
+export function formatDiagnostic(file: string, diag: Diagnostic): string {
+	const line = diag.range.start.line + 1;
+	const col = diag.range.start.character + 1;
+	const code = diag.code ? ` [${diag.code}]` : "";
+	return `${file}:${line}:${col}: ${severityLabel(diag.severity)}: ${
+		diag.message
+	}${code}`;
+}
@@ -1,14 +1,17 @@
 import { parseLunor } from "./parser/lunorParser";
-import type { AstNode, ForNode, IfNode } from "./parser/types";
+import { visit, type AstNode } from "./parser/ast";
+import type { ParseResult } from "./parser/types";
 import { DocumentSymbol, SymbolKind, Range } from "vscode-languageserver/node";
 
 /**
  * Generate document symbols for a Lunor document text and URI.
  * Returns an array containing a single root symbol with children representing AST nodes.
+ * `parsed` is the document's parse result when it is already known.
  */
 export function generateDocumentSymbols(
 	text: string,
-	uri: string
+	uri: string,
+	parsed?: ParseResult
 ): DocumentSymbol[] {
 	if (!uri.toLowerCase().endsWith(".lnr")) {
 		return [];
@@ -17,11 +20,16 @@ export function generateDocumentSymbols(
 	if (lines.length === 0) {
 		return [];
 	}
-	const { ast, component } = parseLunor(text);
+	const { ast, component } = parsed ?? parseLunor(text);
 	if (!component) {
 		return [];
 	}
-	const fullRange = Range.create(0, 0, lines.length - 1, 0);
+	const fullRange = Range.create(
+		0,
+		0,
+		lines.length - 1,
+		lines[lines.length - 1].length
+	);
 	const selectRange = Range.create(0, 0, 0, component.name.length);
 	const root = DocumentSymbol.create(
 		component.name,
@@ -32,81 +40,45 @@ export function generateDocumentSymbols(
 		[]
 	);
 
-	function visit(node: AstNode, parent: DocumentSymbol) {
-		if (node.type === "For") {
-			const forNode = node as ForNode;
-			const symbol = DocumentSymbol.create(
-				`for ${forNode.variable} in ${forNode.collection}`,
-				undefined,
-				SymbolKind.Function,
-				Range.create(
-					node.startLine ?? 0,
-					0,
-					node.endLine ?? node.startLine ?? 0,
-					0
-				),
-				Range.create(
-					node.startLine ?? 0,
-					0,
-					node.endLine ?? node.startLine ?? 0,
-					0
-				),
-				[]
-			);
-			parent.children?.push(symbol);
-			return;
-		}
-		if (node.type === "If") {
-			const ifNode = node as IfNode;
-			const symbol = DocumentSymbol.create(
-				`if ${ifNode.condition}`,
-				undefined,
+	// the symbol spans the whole block, its header line is selected
+	const add = (name: string, kind: SymbolKind, node: AstNode) => {
+		const start = node.startLine ?? 0;
+		const end = node.endLine ?? start;
+		const range = Range.create(
+			start,
+			node.startColumn ?? 0,
+			end,
+			node.endColumn ?? lines[end].length
+		);
+		const selection = Range.create(
+			start,
+			node.startColumn ?? 0,
+			start,
+			end === start ? range.end.character : lines[start].trimEnd().length
+		);
+		root.children?.push(
+			DocumentSymbol.create(name, undefined, kind, range, selection, [])
+		);
+	};
+	visit(ast, {
+		For: (node) => {
+			add(
+				`for ${node.variable} in ${node.collection}`,
 				SymbolKind.Function,
-				Range.create(
-					node.startLine ?? 0,
-					0,
-					node.endLine ?? node.startLine ?? 0,
-					0
-				),
-				Range.create(
-					node.startLine ?? 0,
-					0,
-					node.endLine ?? node.startLine ?? 0,
-					0
-				),
-				[]
+				node
 			);
-			parent.children?.push(symbol);
-			return;
-		}
-		if (node.type === "State" || node.type === "Data") {
-			const stateOrDataNode = node as
-				| { type: "State"; name: string }
-				| { type: "Data"; name: string };
-			const symbol = DocumentSymbol.create(
-				`${node.type} ${stateOrDataNode.name}`,
-				undefined,
-				SymbolKind.Variable,
-				Range.create(
-					node.startLine ?? 0,
-					0,
-					node.endLine ?? node.startLine ?? 0,
-					0
-				),
-				Range.create(
-					node.startLine ?? 0,
-					0,
-					node.endLine ?? node.startLine ?? 0,
-					0
-				),
-				[]
-			);
-			parent.children?.push(symbol);
-			return;
-		}
-		node.children?.forEach((child) => visit(child, parent));
-	}
-
-	ast.forEach((n) => visit(n, root));
+			return false;
+		},
+		If: (node) => {
+			add(`if ${node.condition}`, SymbolKind.Function, node);
+			return false;
+		},
+		State: (node) => {
+			add(`State ${node.name}`, SymbolKind.Variable, node);
+		},
+		Data: (node) => {
+			add(`Data ${node.name}`, SymbolKind.Variable, node);
+		},
+	});
 	return [root];
 }
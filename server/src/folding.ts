@@ -0,0 +1,188 @@
+import {
+	FoldingRange,
+	FoldingRangeKind,
+	Position,
+	Range,
+	SelectionRange,
+} from "vscode-languageserver/node";
+import { parseLunor } from "./parser/lunorParser";
+import { nodePathAt, visit, type IfNode } from "./parser/ast";
+import type { ParseResult } from "./parser/types";
+
+/**
+ * Folding ranges of a Lunor document: every block that spans several lines
+ * (components, :for, :if and its branches, :js and :on bodies, :fetch
+ * blocks, markdown lists, quotes, tables and code fences) and runs of
+ * comment lines.
+ */
+export function lunorFoldingRanges(
+	text: string,
+	parsed: ParseResult = parseLunor(text)
+): FoldingRange[] {
+	const { ast } = parsed;
+	const ranges = new Map<number, FoldingRange>();
+	const add = (start: number, end: number, kind?: FoldingRangeKind) => {
+		// the outermost block wins when several start on the same line
+		if (end > start && !ranges.has(start)) {
+			ranges.set(
+				start,
+				FoldingRange.create(start, end, undefined, undefined, kind)
+			);
+		}
+	};
+	const comments: number[] = [];
+	visit(ast, {
+		enter: (node) => {
+			if (node.type === "Comment") {
+				comments.push(node.startLine ?? 0);
+			} else if (node.type === "If") {
+				// the :elif/:else branches fold on their own
+				add(node.startLine ?? 0, ifBodyEnd(node));
+			} else if (node.type !== "Text") {
+				add(node.startLine ?? 0, node.endLine ?? 0);
+			}
+		},
+	});
+
+	let runStart = 0;
+	comments.forEach((line, i) => {
+		if (i > 0 && line !== comments[i - 1] + 1) {
+			runStart = i;
+		}
+		if (i === comments.length - 1 || comments[i + 1] !== line + 1) {
+			add(comments[runStart], line, FoldingRangeKind.Comment);
+		}
+	});
+	return [...ranges.values()].sort((a, b) => a.startLine - b.startLine);
+}
+
+// Last line of an :if's own body, before its :elif/:else branches
+function ifBodyEnd(node: IfNode): number {
+	return node.children.reduce(
+		(end, child) => Math.max(end, child.endLine ?? 0),
+		node.startLine ?? 0
+	);
+}
+
+/**
+ * Smart expand-selection for each position: the `{expression}` around it,
+ * then the `name=value` prop, the whole line, the block the line belongs to
+ * and each enclosing block.
+ */
+export function lunorSelectionRanges(
+	text: string,
+	positions: Position[],
+	parsed: ParseResult = parseLunor(text)
+): SelectionRange[] {
+	const { ast } = parsed;
+	const lines = text.split("\n").map((line) => line.replace(/\r$/, ""));
+	return positions.map((position) => {
+		const lineText = lines[position.line] ?? "";
+		const { character } = position;
+		const ranges: Range[] = [
+			...expressionsAround(lineText, character),
+			...propsAround(lineText, character),
+		]
+			// an expression may hold a prop or sit in one
+			.sort((a, b) => a[1] - a[0] - (b[1] - b[0]))
+			.map(([start, end]) =>
+				Range.create(position.line, start, position.line, end)
+			);
+		const indent = lineText.search(/\S|$/);
+		const lineEnd = lineText.trimEnd().length;
+		if (lineEnd > indent) {
+			ranges.push(
+				Range.create(position.line, indent, position.line, lineEnd)
+			);
+		}
+		for (const node of nodePathAt(ast, position.line).reverse()) {
+			const start = node.startLine ?? 0;
+			const end = node.endLine ?? start;
+			ranges.push(
+				Range.create(
+					start,
+					node.startColumn ?? 0,
+					end,
+					node.endColumn ?? (lines[end] ?? "").length
+				)
+			);
+		}
+		return (
+			ranges
+				.filter(
+					(range, i) => i === 0 || !sameRange(range, ranges[i - 1])
+				)
+				.reduceRight<SelectionRange | undefined>(
+					(parent, range) => SelectionRange.create(range, parent),
+					undefined
+				) ?? SelectionRange.create(Range.create(position, position))
+		);
+	});
+}
+
+function sameRange(a: Range, b: Range): boolean {
+	return (
+		a.start.line === b.start.line &&
+		a.start.character === b.start.character &&
+		a.end.line === b.end.line &&
+		a.end.character === b.end.character
+	);
+}
+
+// `{...}` spans containing `character`, innermost first
+function expressionsAround(
+	lineText: string,
+	character: number
+): [number, number][] {
+	const spans: [number, number][] = [];
+	const open: number[] = [];
+	for (let i = 0; i < lineText.length; i++) {
+		if (lineText[i] === "{") {
+			open.push(i);
+		} else if (lineText[i] === "}" && open.length > 0) {
+			const start = open.pop()!;
+			if (start <= character && character <= i + 1) {
+				spans.push([start, i + 1]);
+			}
+		}
+	}
+	return spans;
+}
+
+// The `name=value` prop containing `character`, if any
+function propsAround(lineText: string, character: number): [number, number][] {
+	for (const m of lineText.matchAll(/(?:^|\s)(\w+)=/g)) {
+		const start = (m.index ?? 0) + m[0].indexOf(m[1]);
+		const end = valueEnd(lineText, start + m[0].trimStart().length);
+		if (start <= character && character <= end) {
+			return [[start, end]];
+		}
+	}
+	return [];
+}
+
+// Index just past a prop value starting at `start`: a quoted string, a
+// `{...}` expression or a bare word
+function valueEnd(lineText: string, start: number): number {
+	if (lineText[start] === '"') {
+		for (let i = start + 1; i < lineText.length; i++) {
+			if (lineText[i] === '"' && lineText[i - 1] !== "\\") {
+				return i + 1;
+			}
+		}
+		return lineText.length;
+	}
+	if (lineText[start] === "{") {
+		let depth = 0;
+		for (let i = start; i < lineText.length; i++) {
+			if (lineText[i] === "{") {
+				depth++;
+			} else if (lineText[i] === "}" && --depth === 0) {
+				return i + 1;
+			}
+		}
+		return lineText.length;
+	}
+	const space = lineText.slice(start).search(/\s/);
+	return space < 0 ? lineText.length : start + space;
+}
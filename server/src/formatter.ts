@@ -0,0 +1,243 @@
+import { Range, TextEdit } from "vscode-languageserver/node";
+import {
+	continuationCount,
+	generateReactCode,
+	parseLunor,
+	splitProps,
+} from "./parser/lunorParser";
+import { childNodes, type AstNode, type ComponentNode } from "./parser/ast";
+import type { ParentComponent, ParseResult } from "./parser/types";
+
+export interface FormatOptions {
+	tabSize: number;
+	insertSpaces: boolean;
+}
+
+// node types that open an indented block, as in parseLine
+function isBlock(node: AstNode): boolean {
+	return (
+		node.type === "Component" ||
+		node.type === "JavaScript" ||
+		node.type === "For" ||
+		node.type === "If" ||
+		node.type === "ElseIf" ||
+		node.type === "Else" ||
+		node.type === "Empty" ||
+		node.type === "On" ||
+		node.type === "Fetch" ||
+		node.type === "Slot" ||
+		node.type === "Loading" ||
+		node.type === "Error" ||
+		node.type === "Invalid" ||
+		(node.type === "Markdown" &&
+			["ul", "ol", "li"].includes(node.tag as string))
+	);
+}
+
+function formatSignature(component: ParentComponent): string {
+	const props = (component.props ?? []).map((p) =>
+		p.defaultValue !== undefined
+			? `${p.name}: ${p.type} = ${p.defaultValue}`
+			: `${p.name}${p.optional ? "?" : ""}: ${p.type}`
+	);
+	return `${component.name}(${props.join(", ")})`;
+}
+
+function formatPropValue(
+	component: ComponentNode,
+	key: string,
+	value: ComponentNode["props"][string],
+	raw: string | undefined
+): string | null {
+	if (typeof value === "object") {
+		const expr = value.value;
+		// parseComponent rewrites Route element={X} to <X/>
+		if (component.name === "Route" && key === "element") {
+			return `{${expr.slice(1, -2)}}`;
+		}
+		return `{${expr}}`;
+	}
+	if (typeof value === "string") {
+		// single-quoted strings are kept as written
+		if (raw && /^'.*'$/.test(raw)) {
+			return raw;
+		}
+		return value.includes('"') ? null : `"${value}"`;
+	}
+	return String(value);
+}
+
+// Canonical `:Name key="value" key={expr}` line, or null to keep the original
+function formatComponent(node: ComponentNode, line: string): string | null {
+	// props as written, by key
+	const written = new Map<string, string>();
+	const propsStr = /^:\w+\s+(.+)$/.exec(line.trim())?.[1];
+	for (const prop of propsStr ? splitProps(propsStr) : []) {
+		const [key, ...rest] = prop.split("=");
+		written.set(key.trim(), rest.join("=").trim());
+	}
+	const props: string[] = [];
+	for (const [key, value] of Object.entries(node.props)) {
+		const formatted = formatPropValue(node, key, value, written.get(key));
+		if (formatted === null) {
+			return null;
+		}
+		props.push(`${key}=${formatted}`);
+	}
+	return [`:${node.name}`, ...props].join(" ");
+}
+
+/**
+ * Format a Lunor document line by line: indentation is normalised to one
+ * unit per block level (following the parser's indentation stack), component
+ * props and the first-line signature are written in canonical form and
+ * `:js` bodies keep their relative indentation. Returns the original text
+ * when formatting would change the generated React code.
+ */
+export function formatLunor(
+	text: string,
+	options: FormatOptions,
+	workspaceRoot: string,
+	parsed: ParseResult = parseLunor(text)
+): string {
+	const eol = text.includes("\r\n") ? "\r\n" : "\n";
+	const lines = text.split(/\r?\n/);
+	const { ast, component, diagnostics, imports } = parsed;
+	const unit = options.insertSpaces ? " ".repeat(options.tabSize) : "\t";
+	const linesWithDiagnostics = new Set(
+		diagnostics.map((d) => d.range.start.line)
+	);
+
+	const nodesByLine = new Map<number, AstNode>();
+	// code fences by their opening line
+	const fences = new Map<number, AstNode>();
+	const visit = (node: AstNode) => {
+		if (node.startLine !== undefined && !nodesByLine.has(node.startLine)) {
+			nodesByLine.set(node.startLine, node);
+		}
+		if (node.type === "Markdown" && node.tag === "pre") {
+			fences.set(node.startLine ?? 0, node);
+		}
+		childNodes(node).forEach(visit);
+	};
+	ast.forEach(visit);
+
+	const stack: {
+		indent: number;
+		node?: AstNode;
+		bodyIndent?: number;
+	}[] = [];
+	// continuation lines of the current logical line keep their indentation
+	// relative to the first one
+	let continuationEnd = -1;
+	let continuationIndent = "";
+	let continuationBase = 0;
+	// lines of a code fence are only moved along with the fence
+	let fenceEnd = -1;
+	let fenceShift = { from: 0, to: "" };
+	const formatted = lines.map((line, index) => {
+		if (index <= fenceEnd) {
+			const leading = line.match(/^\s*/)?.[0].length || 0;
+			return leading >= fenceShift.from && line.trim()
+				? fenceShift.to + line.slice(fenceShift.from)
+				: line;
+		}
+		if (index <= continuationEnd) {
+			if (!line.trim()) {
+				return "";
+			}
+			const indent = line.match(/^\s*/)?.[0].length || 0;
+			const extra = Math.max(0, indent - continuationBase);
+			return continuationIndent + " ".repeat(extra) + line.trim();
+		}
+		if (!line.trim()) {
+			return "";
+		}
+		if (index === 0) {
+			return component && !linesWithDiagnostics.has(0)
+				? formatSignature(component)
+				: line.trim();
+		}
+		const indent = line.match(/^\s*/)?.[0].length || 0;
+		while (stack.length > 0 && indent <= stack[stack.length - 1].indent) {
+			stack.pop();
+		}
+		const parent = stack[stack.length - 1];
+		if (
+			parent?.node?.type === "JavaScript" ||
+			parent?.node?.type === "On"
+		) {
+			// raw JavaScript: keep indentation relative to the first body line
+			parent.bodyIndent ??= indent;
+			const extra = Math.max(0, indent - parent.bodyIndent);
+			return unit.repeat(stack.length) + " ".repeat(extra) + line.trim();
+		}
+
+		const node = nodesByLine.get(index);
+		let content = line.trim();
+		const continuations = continuationCount(lines, index);
+		if (continuations > 0) {
+			// keep props where the author split them, one level deeper
+			continuationEnd = index + continuations;
+			continuationIndent = unit.repeat(stack.length + 1);
+			continuationBase = lines[index + 1].match(/^\s*/)?.[0].length || 0;
+		} else if (
+			node?.type === "Component" &&
+			!linesWithDiagnostics.has(index)
+		) {
+			content = formatComponent(node, line) ?? content;
+		}
+		const result = unit.repeat(stack.length) + content;
+		const fence = fences.get(index);
+		if (fence) {
+			fenceEnd = fence.endLine ?? lines.length - 1;
+			fenceShift = { from: indent, to: unit.repeat(stack.length) };
+		}
+		if (node && isBlock(node)) {
+			stack.push({ indent, node });
+		}
+		return result;
+	});
+
+	const output = formatted.join(eol);
+	const after = parseLunor(output);
+	const same =
+		generateReactCode(ast, component, workspaceRoot, imports) ===
+		generateReactCode(
+			after.ast,
+			after.component,
+			workspaceRoot,
+			after.imports
+		);
+	return same ? output : text;
+}
+
+/**
+ * Edits that format the whole document, or only the lines of `range`.
+ */
+export function formatLunorEdits(
+	text: string,
+	options: FormatOptions,
+	workspaceRoot: string,
+	range?: Range,
+	parsed: ParseResult = parseLunor(text)
+): TextEdit[] {
+	const original = text.split(/\r?\n/);
+	const formatted = formatLunor(text, options, workspaceRoot, parsed).split(
+		/\r?\n/
+	);
+	const first = range ? range.start.line : 0;
+	const last = range ? range.end.line : original.length - 1;
+	const edits: TextEdit[] = [];
+	for (let line = first; line <= last && line < original.length; line++) {
+		if (original[line] !== formatted[line]) {
+			edits.push(
+				TextEdit.replace(
+					Range.create(line, 0, line, original[line].length),
+					formatted[line]
+				)
+			);
+		}
+	}
+	return edits;
+}
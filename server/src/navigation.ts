@@ -0,0 +1,129 @@
+import * as path from "path";
+import * as fs from "fs";
+import { URI } from "vscode-uri";
+import { Location, Range } from "vscode-languageserver/node";
+import { discoverComponentFiles, parseLunor } from "./parser/lunorParser";
+import { childNodes, type AstNode } from "./parser/ast";
+import { directiveNames } from "./parser/directives";
+import { findLunorFiles } from "./compiler";
+
+/**
+ * Name of the component under the cursor: a `:Name` usage, a
+ * `Route element={Name}` prop or the name in the first-line signature.
+ */
+export function componentNameAt(
+	lineText: string,
+	line: number,
+	character: number
+): string | null {
+	const patterns = [/:(\w+)/g, /element=\{(\w+)\}/g];
+	if (line === 0) {
+		patterns.push(/^\s*(\w+)\(/g);
+	}
+	for (const regex of patterns) {
+		for (const m of lineText.matchAll(regex)) {
+			const name = m[1];
+			const start = (m.index ?? 0) + m[0].indexOf(name);
+			if (
+				character >= start - 1 &&
+				character <= start + name.length &&
+				!directiveNames.includes(name)
+			) {
+				return name;
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Location of the name in the first-line signature of the `.lnr` file that
+ * defines the component, resolved the same way generated imports are.
+ * `readText` lets open editors override the files on disk.
+ */
+export function findComponentDefinition(
+	name: string,
+	workspaceRoot: string,
+	readText: (file: string) => string = (file) => fs.readFileSync(file, "utf8")
+): Location | null {
+	const rel = discoverComponentFiles(workspaceRoot)[name];
+	if (!rel) {
+		return null;
+	}
+	const file = path.join(workspaceRoot, rel + ".lnr");
+	let start = 0;
+	try {
+		// editors leave a byte order mark out of the text they report
+		const firstLine = readText(file)
+			.replace(/^\uFEFF/, "")
+			.split(/\r?\n/)[0];
+		start = Math.max(0, firstLine.search(new RegExp(`\\b${name}\\(`)));
+	} catch {
+		// unreadable files keep the start of the line
+	}
+	return Location.create(
+		URI.file(file).toString(),
+		Range.create(0, start, 0, start + name.length)
+	);
+}
+
+/**
+ * Every `:Name` usage and `Route element={Name}` of a component in the
+ * workspace. `readText` lets open editors override the files on disk.
+ */
+export function findComponentReferences(
+	name: string,
+	workspaceRoot: string,
+	readText: (file: string) => string = (file) => fs.readFileSync(file, "utf8")
+): Location[] {
+	const locations: Location[] = [];
+	for (const file of findLunorFiles(workspaceRoot)) {
+		let text: string;
+		try {
+			text = readText(file);
+		} catch {
+			continue;
+		}
+		const uri = URI.file(file).toString();
+		const lines = text.split(/\r?\n/);
+		const { ast } = parseLunor(text);
+
+		const visit = (node: AstNode) => {
+			if (node.type === "Component" && node.startLine !== undefined) {
+				const lineText = lines[node.startLine];
+				if (node.name === name) {
+					const start = lineText.indexOf(":" + name) + 1;
+					locations.push(
+						Location.create(
+							uri,
+							Range.create(
+								node.startLine,
+								start,
+								node.startLine,
+								start + name.length
+							)
+						)
+					);
+				}
+				const element = lineText.indexOf(`element={${name}}`);
+				if (node.name === "Route" && element >= 0) {
+					const start = element + "element={".length;
+					locations.push(
+						Location.create(
+							uri,
+							Range.create(
+								node.startLine,
+								start,
+								node.startLine,
+								start + name.length
+							)
+						)
+					);
+				}
+			}
+			childNodes(node).forEach(visit);
+		};
+		ast.forEach(visit);
+	}
+	return locations;
+}
@@ -0,0 +1,28 @@
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import { parseLunor, reparseLunor } from "./parser/lunorParser";
+import type { ParseResult } from "./parser/types";
+
+// Latest parse of each open document, by URI
+const parsed = new Map<string, { version: number; result: ParseResult }>();
+
+/**
+ * Parse result of an open document, shared by all requests for the same
+ * version. A new version reparses only the block that was edited when it
+ * can; results must be treated as read-only.
+ */
+export function parseDocument(document: TextDocument): ParseResult {
+	const cached = parsed.get(document.uri);
+	if (cached?.version === document.version) {
+		return cached.result;
+	}
+	const result = cached
+		? reparseLunor(cached.result, document.getText())
+		: parseLunor(document.getText());
+	parsed.set(document.uri, { version: document.version, result });
+	return result;
+}
+
+// Drop the parse of a closed document
+export function forgetDocument(uri: string): void {
+	parsed.delete(uri);
+}
@@ -0,0 +1,394 @@
+// Lunor syntax tree: every node kind the parser creates, as a union
+// discriminated by `type`, and helpers to walk and rewrite it.
+
+// Source position of a node; lines and columns are 0-based
+export interface NodePosition {
+	startLine?: number;
+	startColumn?: number;
+	endLine?: number;
+	endColumn?: number;
+}
+
+// `{expr}` in a value, prop or text; not a node of the tree itself
+export interface ExpressionNode {
+	type: "Expression";
+	value: string;
+}
+
+// value of a component prop
+export type LiteralValue = string | number | boolean | ExpressionNode;
+
+// value of a :data/:state: parsed JSON or an expression
+export type DataValue =
+	| string
+	| number
+	| boolean
+	| null
+	| DataValue[]
+	| { [key: string]: DataValue }
+	| ExpressionNode;
+
+// plain text or `{expr}` inside inline markdown
+export interface TextNode extends NodePosition {
+	type: "Text";
+	value: string | ExpressionNode;
+}
+
+// `// comment` line
+export interface CommentNode extends NodePosition {
+	type: "Comment";
+	value: string;
+}
+
+export interface MarkdownNode extends NodePosition {
+	type: "Markdown";
+	tag: string;
+	value?: string | ExpressionNode;
+	// text mixed with expressions and inline elements (p, li, headings)
+	inline?: InlineNode[];
+	children?: AstNode[];
+	attributes?: Record<string, string | ExpressionNode>;
+	// number of an ordered list item (li)
+	ordinal?: number;
+	// verbatim lines and language of a fenced code block (pre)
+	code?: string[];
+	language?: string;
+}
+
+export type InlineNode = TextNode | MarkdownNode;
+
+export interface ComponentNode extends NodePosition {
+	type: "Component";
+	name: string;
+	props: Record<string, LiteralValue>;
+	children: AstNode[];
+}
+
+export interface DataNode extends NodePosition {
+	type: "Data";
+	name: string;
+	value: DataValue;
+}
+
+export interface StateNode extends NodePosition {
+	type: "State";
+	name: string;
+	value: DataValue;
+}
+
+export interface ForNode extends NodePosition {
+	type: "For";
+	variable: string;
+	// index variable of `:for (item, i) in items`
+	index?: string;
+	// collection expression, without the surrounding braces of `{expr}`
+	collection: string;
+	// expression of `key={...}`, defaults to the index
+	key?: string;
+	children: AstNode[];
+	// :empty child block, rendered when the collection is empty
+	empty?: EmptyNode;
+}
+
+export interface EmptyNode extends NodePosition {
+	type: "Empty";
+	children: AstNode[];
+}
+
+export interface IfNode extends NodePosition {
+	type: "If";
+	condition: string;
+	children: AstNode[];
+	// :elif / :else siblings attached to this :if, in source order
+	branches?: (ElseIfNode | ElseNode)[];
+}
+
+export interface ElseIfNode extends NodePosition {
+	type: "ElseIf";
+	condition: string;
+	children: AstNode[];
+}
+
+export interface ElseNode extends NodePosition {
+	type: "Else";
+	children: AstNode[];
+}
+
+// `:on click => ...` handler, turned into an onX prop of its element
+export interface OnNode extends NodePosition {
+	type: "On";
+	event: string;
+	// React prop name, e.g. onClick
+	prop: string;
+	parameter?: string;
+	// inline body after `=>` followed by indented body lines
+	body: string[];
+	bodyPositions?: { line: number; column: number }[];
+}
+
+// Request shared by :fetch and :action
+export interface RequestOptions {
+	url: string;
+	method?: string;
+	// request body expression, sent as JSON
+	body?: string;
+	headers?: Record<string, string>;
+	// `auth` flag, the token source comes from lunor.config.json
+	auth?: boolean;
+	// expression of `headers={...}`, merged over the default headers
+	headersExpression?: string;
+}
+
+export interface FetchNode extends NodePosition, RequestOptions {
+	type: "Fetch";
+	variable?: string;
+	initVariable?: string;
+	// props and states the request depends on, refetched when they change
+	dependencies?: string[];
+	loading?: LoadingNode;
+	error?: ErrorNode;
+}
+
+// Request sent on demand by calling the generated `name()` function
+export interface ActionNode extends NodePosition, RequestOptions {
+	type: "Action";
+	name: string;
+	// parameter list of the generated function, e.g. `id: number`
+	parameters: string;
+	// :fetch variable to refetch after the request succeeds
+	refetch?: string;
+}
+
+// :slot renders the `children` prop, :slot name renders the `name` prop;
+// nested lines are rendered when the caller passes nothing
+export interface SlotNode extends NodePosition {
+	type: "Slot";
+	name?: string;
+	children: AstNode[];
+}
+
+// :loading child block of a :fetch
+export interface LoadingNode extends NodePosition {
+	type: "Loading";
+	children: AstNode[];
+}
+
+// :error child block of a :fetch
+export interface ErrorNode extends NodePosition {
+	type: "Error";
+	children: AstNode[];
+}
+
+// :js block
+export interface JavaScriptNode extends NodePosition {
+	type: "JavaScript";
+	signature: string;
+	body: string[];
+	// source position of each body line, used for source maps
+	bodyPositions?: { line: number; column: number }[];
+}
+
+// Directive line that could not be parsed. Its nested lines are kept as
+// children so the blocks around it are read as written; it generates nothing.
+export interface InvalidNode extends NodePosition {
+	type: "Invalid";
+	// the directive meant, e.g. `for` for a misspelled `:fro`
+	directive: string;
+	children: AstNode[];
+}
+
+export type AstNode =
+	| MarkdownNode
+	| TextNode
+	| CommentNode
+	| ComponentNode
+	| DataNode
+	| StateNode
+	| ForNode
+	| EmptyNode
+	| IfNode
+	| ElseIfNode
+	| ElseNode
+	| OnNode
+	| FetchNode
+	| ActionNode
+	| SlotNode
+	| LoadingNode
+	| ErrorNode
+	| JavaScriptNode
+	| InvalidNode;
+
+export type NodeType = AstNode["type"];
+
+export type NodeOfType<T extends NodeType> = Extract<AstNode, { type: T }>;
+
+// Nodes that hold a list of child nodes
+export type ParentNode =
+	| MarkdownNode
+	| ComponentNode
+	| ForNode
+	| EmptyNode
+	| IfNode
+	| ElseIfNode
+	| ElseNode
+	| SlotNode
+	| LoadingNode
+	| ErrorNode
+	| InvalidNode;
+
+// Nodes whose indented lines belong to them, as kept on the parser's stack
+export type BlockNode = ParentNode | OnNode | FetchNode | JavaScriptNode;
+
+const parentTypes = new Set<NodeType>([
+	"Markdown",
+	"Component",
+	"For",
+	"Empty",
+	"If",
+	"ElseIf",
+	"Else",
+	"Slot",
+	"Loading",
+	"Error",
+	"Invalid",
+]);
+
+export function isParentNode(node: AstNode): node is ParentNode {
+	return parentTypes.has(node.type);
+}
+
+export function isExpression(value: unknown): value is ExpressionNode {
+	return (
+		!!value &&
+		typeof value === "object" &&
+		(value as ExpressionNode).type === "Expression"
+	);
+}
+
+/**
+ * Nodes nested in `node`: its children, plus the :elif/:else branches of an
+ * :if, the :empty block of a :for and the :loading/:error blocks of a :fetch.
+ */
+export function childNodes(node: AstNode): AstNode[] {
+	switch (node.type) {
+		case "Fetch":
+			return [node.loading, node.error].filter(
+				(n): n is LoadingNode | ErrorNode => !!n
+			);
+		case "For":
+			return node.empty ? [...node.children, node.empty] : node.children;
+		case "If":
+			return [...node.children, ...(node.branches ?? [])];
+		default:
+			return isParentNode(node) ? node.children ?? [] : [];
+	}
+}
+
+/**
+ * Callbacks for `visit`: one per node type, plus `enter` and `leave` for
+ * every node. Returning false from a type callback or `enter` skips the
+ * node's children.
+ */
+export type Visitor = {
+	[T in NodeType]?: (
+		node: NodeOfType<T>,
+		parent: AstNode | null
+	) => void | boolean;
+} & {
+	enter?: (node: AstNode, parent: AstNode | null) => void | boolean;
+	leave?: (node: AstNode, parent: AstNode | null) => void;
+};
+
+/**
+ * Walk the tree depth-first in source order, including the nodes returned
+ * by `childNodes`.
+ */
+export function visit(
+	nodes: AstNode[],
+	visitor: Visitor,
+	parent: AstNode | null = null
+): void {
+	for (const node of nodes) {
+		const typed = visitor[node.type] as
+			| ((node: AstNode, parent: AstNode | null) => void | boolean)
+			| undefined;
+		const descend =
+			typed?.(node, parent) !== false &&
+			visitor.enter?.(node, parent) !== false;
+		if (descend) {
+			visit(childNodes(node), visitor, node);
+		}
+		visitor.leave?.(node, parent);
+	}
+}
+
+// Whether any node in the tree matches `predicate`
+export function someNode(
+	nodes: AstNode[],
+	predicate: (node: AstNode) => boolean
+): boolean {
+	return nodes.some(
+		(node) => predicate(node) || someNode(childNodes(node), predicate)
+	);
+}
+
+/**
+ * Rewrite the tree bottom-up. `fn` gets every node after its children were
+ * rewritten and returns its replacement: a node, several nodes, null to
+ * drop it or undefined to keep it. Child lists are updated in place; the
+ * :elif/:else, :empty and :loading/:error blocks themselves are kept, only
+ * their contents are rewritten. Returns the new top-level list.
+ */
+export function transform(
+	nodes: AstNode[],
+	fn: (
+		node: AstNode,
+		parent: AstNode | null
+	) => AstNode | AstNode[] | null | void,
+	parent: AstNode | null = null
+): AstNode[] {
+	const result: AstNode[] = [];
+	for (const node of nodes) {
+		if (isParentNode(node) && node.children) {
+			node.children = transform(node.children, fn, node);
+		}
+		const blocks: ParentNode[] =
+			node.type === "If"
+				? node.branches ?? []
+				: node.type === "For"
+				? node.empty
+					? [node.empty]
+					: []
+				: node.type === "Fetch"
+				? [node.loading, node.error].filter(
+						(n): n is LoadingNode | ErrorNode => !!n
+				  )
+				: [];
+		for (const block of blocks) {
+			block.children = transform(block.children ?? [], fn, block);
+		}
+		const replacement = fn(node, parent);
+		if (replacement === undefined) {
+			result.push(node);
+		} else if (replacement !== null) {
+			result.push(
+				...(Array.isArray(replacement) ? replacement : [replacement])
+			);
+		}
+	}
+	return result;
+}
+
+/**
+ * The nodes containing `line`, from the outermost to the innermost.
+ */
+export function nodePathAt(nodes: AstNode[], line: number): AstNode[] {
+	for (const node of nodes) {
+		const start = node.startLine ?? 0;
+		const end = node.endLine ?? start;
+		if (line >= start && line <= end) {
+			return [node, ...nodePathAt(childNodes(node), line)];
+		}
+	}
+	return [];
+}
@@ -0,0 +1,59 @@
+import * as path from "path";
+import * as fs from "fs";
+
+export const CONFIG_FILE_NAME = "lunor.config.json";
+
+/**
+ * Where `:fetch ... auth` takes its token from. Without a getter the token
+ * is read from `localStorage.getItem('token')`.
+ */
+export interface AuthConfig {
+	// function returning the token; names starting with `use` are called as
+	// a hook in the component body, e.g. to read a React context
+	getter?: string;
+	// module the getter is imported from, written as-is into the import
+	from?: string;
+	// request header, defaults to Authorization
+	header?: string;
+	// header value, `${token}` is replaced by the token
+	template?: string;
+}
+
+export interface LunorConfig {
+	auth?: AuthConfig;
+}
+
+/**
+ * Path of the nearest lunor.config.json in `fromDir` or one of its parents.
+ */
+export function findLunorConfig(fromDir: string): string | null {
+	let dir = path.resolve(fromDir);
+	for (;;) {
+		const file = path.join(dir, CONFIG_FILE_NAME);
+		if (fs.existsSync(file)) {
+			return file;
+		}
+		const parent = path.dirname(dir);
+		if (parent === dir) {
+			return null;
+		}
+		dir = parent;
+	}
+}
+
+/**
+ * Project configuration for the generator; an empty config when there is no
+ * config file or it cannot be parsed.
+ */
+export function loadLunorConfig(fromDir: string): LunorConfig {
+	const file = fromDir ? findLunorConfig(fromDir) : null;
+	if (!file) {
+		return {};
+	}
+	try {
+		const config = JSON.parse(fs.readFileSync(file, "utf8"));
+		return config && typeof config === "object" ? config : {};
+	} catch {
+		return {};
+	}
+}
@@ -0,0 +1,93 @@
+// Reserved `:name` directives and the syntax each of them expects
+export const directiveSyntax: Record<string, string> = {
+	if: ":if condition",
+	elif: ":elif condition",
+	else: ":else",
+	for: ":for item in items",
+	forEach: ":forEach item in items",
+	empty: ":empty",
+	on: ":on event => handler",
+	data: ":data name=value",
+	state: ":state name=value",
+	fetch: ":fetch name from url",
+	action: ":action name(params) METHOD url",
+	slot: ":slot or :slot name",
+	loading: ":loading",
+	error: ":error",
+	js: ":js",
+};
+
+export const directiveNames = Object.keys(directiveSyntax);
+
+// HTML elements, which are never read as a misspelled directive
+const htmlElements = new Set(
+	(
+		"a abbr address area article aside audio b base bdi bdo blockquote " +
+		"body br button canvas caption cite code col colgroup data datalist " +
+		"dd del details dfn dialog div dl dt em embed fieldset figcaption " +
+		"figure footer form h1 h2 h3 h4 h5 h6 head header hgroup hr html i " +
+		"iframe img input ins kbd label legend li link main map mark menu " +
+		"meta meter nav noscript object ol optgroup option output p picture " +
+		"pre progress q rp rt ruby s samp script search section select slot " +
+		"small source span strong style sub summary sup table tbody td " +
+		"template textarea tfoot th thead time title tr track u ul var " +
+		"video wbr svg path circle rect line g"
+	).split(" ")
+);
+
+/**
+ * The directive a lowercase `:name` that is neither a directive nor an HTML
+ * element was most likely meant to be, e.g. `for` for `fro`, or null when
+ * no directive is close enough.
+ */
+export function suggestDirective(name: string): string | null {
+	if (
+		!/^[a-z]/.test(name) ||
+		htmlElements.has(name) ||
+		directiveNames.includes(name)
+	) {
+		return null;
+	}
+	let best: string | null = null;
+	let bestDistance = Infinity;
+	for (const directive of directiveNames) {
+		const distance = editDistance(
+			name.toLowerCase(),
+			directive.toLowerCase()
+		);
+		// one typo, or two in names of six letters or more
+		const allowed = Math.min(name.length, directive.length) >= 6 ? 2 : 1;
+		if (distance <= allowed && distance < bestDistance) {
+			best = directive;
+			bestDistance = distance;
+		}
+	}
+	return best;
+}
+
+// Edits (insert, delete, replace or swap two neighbours) turning a into b
+function editDistance(a: string, b: string): number {
+	const d: number[][] = [];
+	for (let i = 0; i <= a.length; i++) {
+		d.push([i]);
+		for (let j = 1; j <= b.length; j++) {
+			d[i][j] =
+				i === 0
+					? j
+					: Math.min(
+							d[i - 1][j] + 1,
+							d[i][j - 1] + 1,
+							d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+					  );
+			if (
+				i > 1 &&
+				j > 1 &&
+				a[i - 1] === b[j - 2] &&
+				a[i - 2] === b[j - 1]
+			) {
+				d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+			}
+		}
+	}
+	return d[a.length][b.length];
+}
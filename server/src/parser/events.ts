@@ -0,0 +1,78 @@
+// DOM events supported by React, as `:on` names → React prop names
+const reactEvents = [
+	"onClick",
+	"onDoubleClick",
+	"onContextMenu",
+	"onMouseDown",
+	"onMouseUp",
+	"onMouseEnter",
+	"onMouseLeave",
+	"onMouseMove",
+	"onMouseOver",
+	"onMouseOut",
+	"onPointerDown",
+	"onPointerUp",
+	"onPointerMove",
+	"onPointerEnter",
+	"onPointerLeave",
+	"onPointerCancel",
+	"onTouchStart",
+	"onTouchMove",
+	"onTouchEnd",
+	"onTouchCancel",
+	"onDrag",
+	"onDragStart",
+	"onDragEnd",
+	"onDragEnter",
+	"onDragLeave",
+	"onDragOver",
+	"onDrop",
+	"onKeyDown",
+	"onKeyUp",
+	"onKeyPress",
+	"onFocus",
+	"onBlur",
+	"onChange",
+	"onInput",
+	"onSubmit",
+	"onReset",
+	"onInvalid",
+	"onSelect",
+	"onScroll",
+	"onWheel",
+	"onCopy",
+	"onCut",
+	"onPaste",
+	"onLoad",
+	"onError",
+	"onAnimationStart",
+	"onAnimationEnd",
+	"onAnimationIteration",
+	"onTransitionEnd",
+	"onPlay",
+	"onPause",
+	"onPlaying",
+	"onEnded",
+	"onWaiting",
+	"onSeeking",
+	"onSeeked",
+	"onTimeUpdate",
+	"onVolumeChange",
+	"onCanPlay",
+	"onLoadedData",
+	"onLoadedMetadata",
+];
+
+const eventsByName = new Map<string, string>(
+	reactEvents.map((prop) => [prop.slice(2).toLowerCase(), prop])
+);
+// DOM spelling of onDoubleClick
+eventsByName.set("dblclick", "onDoubleClick");
+
+/**
+ * React prop for an `:on` event name (`click` → `onClick`, `mouseEnter` or
+ * `mouseenter` → `onMouseEnter`), or null when it is not a DOM/React event.
+ */
+export function reactEventProp(event: string): string | null {
+	return eventsByName.get(event.replace(/^on/i, "").toLowerCase()) ?? null;
+}
@@ -0,0 +1,214 @@
+import { jsxAttribute, jsxText } from "./jsx";
+import {
+	isExpression,
+	type AstNode,
+	type ExpressionNode,
+	type InlineNode,
+} from "./ast";
+
+// Index just past the `close` that matches the `open` at `start`, or -1
+function matching(
+	text: string,
+	start: number,
+	open: string,
+	close: string
+): number {
+	let depth = 0;
+	for (let i = start; i < text.length; i++) {
+		if (text[i] === open) {
+			depth++;
+		} else if (text[i] === close && --depth === 0) {
+			return i + 1;
+		}
+	}
+	return -1;
+}
+
+// `{expr}` → Expression, anything else stays a string
+function attributeValue(text: string): string | ExpressionNode {
+	const trimmed = text.trim();
+	if (
+		trimmed.startsWith("{") &&
+		matching(trimmed, 0, "{", "}") === trimmed.length
+	) {
+		return { type: "Expression", value: trimmed.slice(1, -1) };
+	}
+	return trimmed;
+}
+
+// `[text](url)` starting at `start`: the text, the url and the end index
+function parseLinkAt(
+	text: string,
+	start: number
+): { label: string; url: string; end: number } | null {
+	const labelEnd = matching(text, start, "[", "]");
+	if (labelEnd < 0 || text[labelEnd] !== "(") {
+		return null;
+	}
+	const urlEnd = matching(text, labelEnd, "(", ")");
+	if (urlEnd < 0) {
+		return null;
+	}
+	return {
+		label: text.slice(start + 1, labelEnd - 1),
+		url: text.slice(labelEnd + 1, urlEnd - 1),
+		end: urlEnd,
+	};
+}
+
+/**
+ * Split a line of markdown into inline nodes: plain text and `{expr}`
+ * become Text nodes, `**bold**`, `*italic*`, `` `code` ``, `[text](url)` and
+ * `![alt](src)` become Markdown nodes (strong, em, code, a, img). Markers
+ * without a closing counterpart are kept as text.
+ */
+export function parseInline(text: string): InlineNode[] {
+	const nodes: InlineNode[] = [];
+	let buffer = "";
+	const flush = () => {
+		if (buffer) {
+			nodes.push({ type: "Text", value: buffer });
+			buffer = "";
+		}
+	};
+	const push = (node: InlineNode, end: number) => {
+		flush();
+		nodes.push(node);
+		return end;
+	};
+
+	let i = 0;
+	while (i < text.length) {
+		const char = text[i];
+		if (char === "{") {
+			const end = matching(text, i, "{", "}");
+			if (end > 0) {
+				i = push(
+					{
+						type: "Text",
+						value: {
+							type: "Expression",
+							value: text.slice(i + 1, end - 1),
+						},
+					},
+					end
+				);
+				continue;
+			}
+		} else if (char === "`") {
+			const end = text.indexOf("`", i + 1);
+			if (end > i + 1) {
+				i = push(
+					{
+						type: "Markdown",
+						tag: "code",
+						children: [
+							{ type: "Text", value: text.slice(i + 1, end) },
+						],
+					},
+					end + 1
+				);
+				continue;
+			}
+		} else if (char === "!" && text[i + 1] === "[") {
+			const link = parseLinkAt(text, i + 1);
+			if (link) {
+				i = push(
+					{
+						type: "Markdown",
+						tag: "img",
+						attributes: {
+							src: attributeValue(link.url),
+							alt: link.label,
+						},
+					},
+					link.end
+				);
+				continue;
+			}
+		} else if (char === "[") {
+			const link = parseLinkAt(text, i);
+			if (link) {
+				i = push(
+					{
+						type: "Markdown",
+						tag: "a",
+						attributes: { href: attributeValue(link.url) },
+						children: parseInline(link.label),
+					},
+					link.end
+				);
+				continue;
+			}
+		} else if (char === "*") {
+			const marker = text.startsWith("**", i) ? "**" : "*";
+			const end = text.indexOf(marker, i + marker.length);
+			if (end > i + marker.length) {
+				i = push(
+					{
+						type: "Markdown",
+						tag: marker === "**" ? "strong" : "em",
+						children: parseInline(
+							text.slice(i + marker.length, end)
+						),
+					},
+					end + marker.length
+				);
+				continue;
+			}
+		}
+		buffer += char;
+		i++;
+	}
+	flush();
+	return nodes;
+}
+
+function renderAttribute(value: string | ExpressionNode | undefined): string {
+	if (isExpression(value)) {
+		return `{${value.value}}`;
+	}
+	return jsxAttribute(typeof value === "string" ? value : "");
+}
+
+/**
+ * JSX for inline nodes, on a single line so that the spaces between text,
+ * expressions and elements are kept.
+ */
+export function renderInline(nodes: AstNode[]): string {
+	return nodes
+		.map((node) => {
+			if (node.type === "Text") {
+				return isExpression(node.value)
+					? `{${node.value.value}}`
+					: jsxText(node.value);
+			}
+			if (node.type !== "Markdown") {
+				return "";
+			}
+			const markdown = node;
+			const children = markdown.children ?? [];
+			switch (markdown.tag) {
+				case "code": {
+					// code is shown verbatim, braces and all
+					const [text] = children;
+					return `<code>{${JSON.stringify(
+						text?.type === "Text" ? String(text.value) : ""
+					)}}</code>`;
+				}
+				case "img":
+					return `<img src=${renderAttribute(
+						markdown.attributes?.src
+					)} alt=${renderAttribute(markdown.attributes?.alt)} />`;
+				case "a":
+					return `<a href=${renderAttribute(
+						markdown.attributes?.href
+					)}>${renderInline(children)}</a>`;
+				default:
+					return `<${markdown.tag}>${renderInline(children)}</${
+						markdown.tag
+					}>`;
+			}
+		})
+		.join("");
+}
@@ -0,0 +1,22 @@
+/**
+ * Literal text as JSX children. `{`, `}`, `<` and `>` would start an
+ * expression or a tag (or are rejected by TypeScript), so they are written as
+ * string expressions; everything else, including HTML entities, is kept.
+ */
+export function jsxText(text: string): string {
+	return text.replace(/[{}<>]+/g, (chars) => `{${JSON.stringify(chars)}}`);
+}
+
+/**
+ * A literal attribute value with its quotes: `"value"`, or `{"value"}` when
+ * it contains a quote, an entity or a line break that a JSX string would not
+ * keep as written.
+ */
+export function jsxAttribute(value: string): string {
+	return /["&\n\r]/.test(value) ? `{${JSON.stringify(value)}}` : `"${value}"`;
+}
+
+// Text inside a `{/* ... */}` comment, which must not end the comment early
+export function jsxComment(text: string): string {
+	return text.replace(/\*\//g, "*\\/");
+}
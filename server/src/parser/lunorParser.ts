@@ -2,20 +2,59 @@ import * as path from "path";
 import * as fs from "fs";
 import * as glob from "fast-glob";
 import { DiagnosticSeverity } from "vscode-languageserver";
-import {
+import type {
+	Diagnostic,
 	ParseContext,
-	AstNode,
-	DataNode,
-	StateNode,
-	MarkdownNode,
-	ComponentNode,
-	ExpressionNode,
-	FetchNode,
-	ForNode,
-	IfNode,
+	ParseResult,
 	ParentComponent,
-	JavaScriptNode,
+	ContinuationPiece,
+	PropDefinition,
 } from "./types";
+import {
+	isExpression,
+	isParentNode,
+	someNode,
+	visit,
+	type AstNode,
+	type BlockNode,
+	type CommentNode,
+	type DataNode,
+	type DataValue,
+	type LiteralValue,
+	type StateNode,
+	type MarkdownNode,
+	type ComponentNode,
+	type ExpressionNode,
+	type FetchNode,
+	type ActionNode,
+	type RequestOptions,
+	type ForNode,
+	type IfNode,
+	type ElseIfNode,
+	type ElseNode,
+	type EmptyNode,
+	type OnNode,
+	type LoadingNode,
+	type ErrorNode,
+	type SlotNode,
+	type JavaScriptNode,
+	type InvalidNode,
+} from "./ast";
+import {
+	directiveNames,
+	directiveSyntax,
+	suggestDirective,
+} from "./directives";
+import {
+	extractSourceMap,
+	sourceMarker,
+	stripSourceMarkers,
+	type SourceMapV3,
+} from "./sourceMap";
+import { reactEventProp } from "./events";
+import { parseInline, renderInline } from "./inline";
+import { jsxAttribute, jsxComment, jsxText } from "./jsx";
+import { loadLunorConfig, type AuthConfig, type LunorConfig } from "./config";
 // Helper: attach line/column info to AST nodes
 function attachPosition<T extends AstNode>(
 	node: T,
@@ -27,18 +66,27 @@ function attachPosition<T extends AstNode>(
 	node.startColumn = startCol;
 	node.endLine = context.currentLine;
 	node.endColumn = endCol;
+	if (context.continuation) {
+		// the node spans continuation lines
+		const end = continuationPosition(context.continuation, endCol);
+		node.endLine = end.line;
+		node.endColumn = end.character;
+	}
 	return node;
 }
+
+// A value that does not parse is reported here and ends the line as an
+// invalid node, so it is not reported again as a malformed directive
 function parseData(
 	line: string,
 	context: ParseContext
-): DataNode | StateNode | null {
+): DataNode | StateNode | InvalidNode | null {
 	const dataMatch = line.match(context.dataRegex);
 	const stateMatch = line.match(context.stateRegex);
 	if (dataMatch) {
 		const [, name, value] = dataMatch;
 		// support unquoted function call or expression values
-		let parsedValue: string | number | boolean | AstNode;
+		let parsedValue: DataValue;
 		const rawVal = value.trim();
 		// detect simple function calls or dot-expressions, e.g. useParams().id
 		const fnMatch = rawVal.match(
@@ -69,7 +117,7 @@ function parseData(
 					},
 					code: "InvalidDataValue",
 				});
-				return null;
+				return { type: "Invalid", directive: "data", children: [] };
 			}
 		}
 
@@ -78,7 +126,7 @@ function parseData(
 
 	if (stateMatch) {
 		const [, name, value] = stateMatch;
-		let parsedValue: string | number | boolean | AstNode;
+		let parsedValue: DataValue;
 		try {
 			parsedValue = JSON.parse(value.replace(/'/g, '"'));
 		} catch (e) {
@@ -98,7 +146,7 @@ function parseData(
 				},
 				code: "InvalidStateValue",
 			});
-			return null;
+			return { type: "Invalid", directive: "state", children: [] };
 		}
 
 		return { type: "State", name, value: parsedValue };
@@ -123,66 +171,35 @@ function parseMarkdown(line: string, context: ParseContext): AstNode | null {
 		trimmedLine = trimmedLine.slice(0, styleMatch.index).trim();
 	}
 
-	// Krepko: **text**
-	const boldMatch = trimmedLine.match(/^\*\*(.+?)\*\*$/);
-	if (boldMatch) {
-		const [, text] = boldMatch;
-		const textNode = parseExpression(text, context.exprRegex);
-		const node: MarkdownNode = {
-			type: "Markdown",
-			tag: "strong",
-			children: [{ type: "Text", value: textNode }],
-		};
-		if (styleValue) {
-			node.attributes = { style: styleValue };
+	// Blok kode: lines up to the closing fence are kept verbatim
+	const fenceMatch = trimmedLine.match(context.markdownFenceRegex);
+	if (fenceMatch) {
+		const node: MarkdownNode = { type: "Markdown", tag: "pre", code: [] };
+		if (fenceMatch[2]) {
+			node.language = fenceMatch[2];
 		}
-		return node;
-	}
-
-	// Kurzivno: *text*
-	const italicMatch = trimmedLine.match(/^\*(.+?)\*$/);
-	if (italicMatch) {
-		const [, text] = italicMatch;
-		const textNode = parseExpression(text, context.exprRegex);
-		const node: MarkdownNode = {
-			type: "Markdown",
-			tag: "em",
-			children: [{ type: "Text", value: textNode }],
+		context.fence = {
+			node,
+			indent: line.search(/\S/),
+			marker: fenceMatch[1],
 		};
-		if (styleValue) {
-			node.attributes = { style: styleValue };
-		}
 		return node;
 	}
 
-	// Povezava: [text](url) ali [{expr}]({expr})
-	const linkMatch = trimmedLine.match(context.markdownLinkRegex);
-	if (linkMatch) {
-		const [, text, url] = linkMatch;
-		const textNode = parseExpression(text, context.exprRegex);
-		const urlNode = parseExpression(url, context.exprRegex);
-		const node: MarkdownNode = {
-			type: "Markdown",
-			tag: "a",
-			attributes: { href: urlNode },
-			children: [{ type: "Text", value: textNode }],
-		};
-		if (styleValue) {
-			node.attributes = { ...node.attributes, style: styleValue };
-		}
-		return node;
+	// Vodoravna črta
+	if (context.markdownRuleRegex.test(trimmedLine)) {
+		return { type: "Markdown", tag: "hr" };
 	}
 
-	// Slika: ![alt](src) ali ![alt]({expr})
-	const imageMatch = trimmedLine.match(context.markdownImageRegex);
-	if (imageMatch) {
-		const [, alt, src] = imageMatch;
-		const srcNode = parseExpression(src, context.exprRegex);
-		const node: MarkdownNode = {
-			type: "Markdown",
-			tag: "img",
-			attributes: { src: srcNode, alt },
-		};
+	// A line that is a single inline element (**bold**, *italic*,
+	// [link](url) or ![image](src)) is rendered as that element
+	const inline = parseInline(trimmedLine);
+	if (
+		inline.length === 1 &&
+		inline[0].type === "Markdown" &&
+		inline[0].tag !== "code"
+	) {
+		const node = inline[0] as MarkdownNode;
 		if (styleValue) {
 			node.attributes = { ...node.attributes, style: styleValue };
 		}
@@ -193,46 +210,78 @@ function parseMarkdown(line: string, context: ParseContext): AstNode | null {
 	const headerMatch = trimmedLine.match(context.markdownHeaderRegex);
 	if (headerMatch) {
 		const [, hashes, value] = headerMatch;
-		const node: MarkdownNode = {
-			type: "Markdown",
-			tag: `h${hashes.length}`,
-			value: parseExpression(value, context.exprRegex),
-		};
+		const node: MarkdownNode = withInlineContent(
+			{ type: "Markdown", tag: `h${hashes.length}` },
+			value
+		);
 		if (styleValue) {
 			node.attributes = { style: styleValue };
 		}
 		return node;
 	}
 
-	// Seznam
+	// Seznam; items are grouped into one list by attachMarkdownBlock
 	const listMatch = trimmedLine.match(context.markdownListRegex);
-	if (listMatch) {
-		const [, value] = listMatch;
-		const liNode: MarkdownNode = {
-			type: "Markdown",
-			tag: "li",
-			value: parseExpression(value, context.exprRegex),
-		};
+	const orderedMatch = trimmedLine.match(context.markdownOrderedListRegex);
+	if (listMatch || orderedMatch) {
+		const liNode: MarkdownNode = withInlineContent(
+			{ type: "Markdown", tag: "li" },
+			listMatch ? listMatch[1] : orderedMatch![2]
+		);
 		if (styleValue) {
 			liNode.attributes = { style: styleValue };
 		}
-		const parent =
-			context.stack.length > 0
-				? context.stack[context.stack.length - 1].node
-				: null;
-		if (parent?.type === "Markdown" && parent.tag === "ul") {
-			return liNode;
+		if (orderedMatch) {
+			liNode.ordinal = Number(orderedMatch[1]);
 		}
-		return { type: "Markdown", tag: "ul", children: [liNode] };
+		return {
+			type: "Markdown",
+			tag: orderedMatch ? "ol" : "ul",
+			children: [liNode],
+		};
 	}
 
-	// Odstavek ali izraz
-	if (trimmedLine) {
-		const node: MarkdownNode = {
+	// Citat
+	const quoteMatch = trimmedLine.match(context.markdownQuoteRegex);
+	if (quoteMatch) {
+		const children: AstNode[] = [];
+		if (quoteMatch[1].trim()) {
+			const pNode = withInlineContent(
+				{ type: "Markdown", tag: "p" },
+				quoteMatch[1].trim()
+			);
+			if (styleValue) {
+				pNode.attributes = { style: styleValue };
+			}
+			children.push(pNode);
+		}
+		return { type: "Markdown", tag: "blockquote", children };
+	}
+
+	// Tabela: one row per line, rows are joined by attachMarkdownBlock
+	const rowMatch = trimmedLine.match(context.markdownTableRowRegex);
+	if (rowMatch) {
+		const cells = splitTableRow(rowMatch[1]).map((cell) =>
+			withInlineContent({ type: "Markdown", tag: "td" }, cell)
+		);
+		const row: MarkdownNode = {
+			type: "Markdown",
+			tag: "tr",
+			children: cells,
+		};
+		return {
 			type: "Markdown",
-			tag: "p",
-			value: parseExpression(trimmedLine, context.exprRegex),
+			tag: "table",
+			children: [{ type: "Markdown", tag: "tbody", children: [row] }],
 		};
+	}
+
+	// Odstavek ali izraz
+	if (trimmedLine) {
+		const node: MarkdownNode = withInlineContent(
+			{ type: "Markdown", tag: "p" },
+			trimmedLine
+		);
 		if (styleValue) {
 			node.attributes = { style: styleValue };
 		}
@@ -241,12 +290,246 @@ function parseMarkdown(line: string, context: ParseContext): AstNode | null {
 	return null;
 }
 
-function parseExpression(text: string, exprRegex: RegExp): string | AstNode {
-	const match = text.match(exprRegex);
-	if (match) {
-		return { type: "Expression", value: match[1] };
+// Plain text or a lone {expr} stays the node's value, anything richer
+// becomes its inline nodes
+function withInlineContent(node: MarkdownNode, text: string): MarkdownNode {
+	const inline = parseInline(text);
+	if (inline.length === 1 && inline[0].type === "Text") {
+		node.value = inline[0].value;
+	} else if (inline.length === 0) {
+		node.value = text;
+	} else {
+		node.inline = inline;
+	}
+	return node;
+}
+
+// Cells of a table row without its outer pipes; `\|` is a literal pipe and
+// pipes inside `code` or {expressions} do not split
+function splitTableRow(text: string): string[] {
+	const cells: string[] = [];
+	let cell = "";
+	let depth = 0;
+	let inCode = false;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (char === "\\" && text[i + 1] === "|") {
+			cell += "|";
+			i++;
+			continue;
+		}
+		if (char === "`") {
+			inCode = !inCode;
+		} else if (!inCode && char === "{") {
+			depth++;
+		} else if (!inCode && char === "}" && depth > 0) {
+			depth--;
+		} else if (char === "|" && !inCode && depth === 0) {
+			cells.push(cell.trim());
+			cell = "";
+			continue;
+		}
+		cell += char;
+	}
+	cells.push(cell.trim());
+	return cells;
+}
+
+// Column alignment from a `| --- | :---: | ---: |` row, or null when the row
+// is not a separator
+function tableAlignments(row: MarkdownNode): (string | null)[] | null {
+	const cells = (row.children ?? []) as MarkdownNode[];
+	const values = cells.map((cell) =>
+		typeof cell.value === "string" && !cell.inline ? cell.value : ""
+	);
+	if (!values.every((value) => /^:?-+:?$/.test(value))) {
+		return null;
+	}
+	return values.map((value) =>
+		value.startsWith(":") && value.endsWith(":")
+			? "center"
+			: value.endsWith(":")
+			? "right"
+			: value.startsWith(":")
+			? "left"
+			: null
+	);
+}
+
+// Add a row to a table: a separator right after the first row turns that row
+// into the header, later rows are aligned like the header cells
+function addTableRow(table: MarkdownNode, row: MarkdownNode): void {
+	const sections = table.children as MarkdownNode[];
+	const alignments = tableAlignments(row);
+	const body = sections[sections.length - 1];
+	if (
+		alignments &&
+		sections.length === 1 &&
+		body.tag === "tbody" &&
+		body.children?.length === 1
+	) {
+		const header = body.children.pop() as MarkdownNode;
+		(header.children as MarkdownNode[]).forEach((cell, index) => {
+			cell.tag = "th";
+			if (alignments[index]) {
+				cell.attributes = {
+					...cell.attributes,
+					align: alignments[index]!,
+				};
+			}
+		});
+		table.children = [
+			{ type: "Markdown", tag: "thead", children: [header] },
+		];
+		return;
+	}
+	const headerCells = ((sections[0].tag === "thead" &&
+		(sections[0].children?.[0] as MarkdownNode).children) ||
+		[]) as MarkdownNode[];
+	(row.children as MarkdownNode[]).forEach((cell, index) => {
+		const align = headerCells[index]?.attributes?.align;
+		if (align) {
+			cell.attributes = { ...cell.attributes, align };
+		}
+	});
+	if (body.tag === "tbody") {
+		body.children!.push(row);
+	} else {
+		table.children!.push({
+			type: "Markdown",
+			tag: "tbody",
+			children: [row],
+		});
+	}
+}
+
+/**
+ * Attach a list item, quote line or table row. It continues the block right
+ * before it at the same indentation (lists across blank lines, quotes and
+ * tables only on consecutive lines), otherwise it starts a new block. List
+ * items go on the stack, so that deeper lines are nested in the item.
+ * Returns false for other nodes.
+ */
+function attachMarkdownBlock(
+	node: MarkdownNode,
+	indent: number,
+	parent: BlockNode | null,
+	context: ParseContext
+): boolean {
+	if (!["ul", "ol", "blockquote", "table"].includes(node.tag)) {
+		return false;
+	}
+	const siblings = siblingsOf(parent, context);
+	const previous = siblings[siblings.length - 1];
+	const isList = node.tag === "ul" || node.tag === "ol";
+	const first = node.children![0] as MarkdownNode | undefined;
+	const item = (node.tag === "table" ? first?.children![0] : first) as
+		| MarkdownNode
+		| undefined;
+	if (item) {
+		item.startLine = node.startLine;
+		item.startColumn = node.startColumn;
+		item.endLine = node.endLine;
+		item.endColumn = node.endColumn;
+	}
+
+	if (
+		previous?.type === "Markdown" &&
+		previous.tag === node.tag &&
+		previous.startColumn === indent &&
+		(isList || previous.endLine === context.currentLine - 1)
+	) {
+		if (node.tag === "table") {
+			addTableRow(previous as MarkdownNode, item!);
+		} else if (item) {
+			previous.children!.push(item);
+		}
+		previous.endLine = node.endLine;
+		previous.endColumn = node.endColumn;
+	} else {
+		if (
+			node.tag === "ol" &&
+			item?.ordinal !== undefined &&
+			item.ordinal !== 1
+		) {
+			node.attributes = { start: String(item.ordinal) };
+		}
+		siblings.push(node);
+	}
+	if (isList) {
+		// the list stays open until its last item ends
+		context.stack.push({
+			node: siblings[siblings.length - 1] as MarkdownNode,
+			indent,
+		});
+		context.stack.push({ node: item!, indent });
+	}
+	return true;
+}
+
+// A line inside an open code fence: kept verbatim, less the fence's
+// indentation, until the closing fence
+function captureFenceLine(line: string, context: ParseContext): void {
+	const fence = context.fence!;
+	const trimmed = line.trim();
+	if (
+		trimmed.length >= fence.marker.length &&
+		trimmed === fence.marker[0].repeat(trimmed.length)
+	) {
+		fence.node.endLine = context.currentLine;
+		fence.node.endColumn = line.length;
+		context.fence = undefined;
+		return;
+	}
+	const leading = line.search(/\S|$/);
+	fence.node.code!.push(line.slice(Math.min(leading, fence.indent)));
+}
+
+/**
+ * Split the props of a component line at spaces, ignoring spaces within
+ * braces or quotes. A single quote only opens a string as a whole value,
+ * as in title='x', so apostrophes in bare words are kept.
+ */
+export function splitProps(propsStr: string): string[] {
+	const propPairs: string[] = [];
+	let current = "";
+	let braceDepth = 0;
+	// the quote of the string being read, if any
+	let quote = "";
+	for (let i = 0; i < propsStr.length; i++) {
+		const char = propsStr[i];
+		const escaped = propsStr[i - 1] === "\\";
+		const opens =
+			!quote &&
+			!escaped &&
+			(char === '"' ||
+				(char === "'" && braceDepth === 0 && propsStr[i - 1] === "="));
+		if (opens || (quote === char && !escaped)) {
+			quote = quote ? "" : char;
+			current += char;
+		} else if (!quote) {
+			if (char === "{") {
+				braceDepth++;
+				current += char;
+			} else if (char === "}") {
+				braceDepth--;
+				current += char;
+			} else if (char === " " && braceDepth === 0) {
+				if (current.trim()) {
+					propPairs.push(current.trim());
+				}
+				current = "";
+			} else {
+				current += char;
+			}
+		} else {
+			current += char;
+		}
+	}
+	if (current.trim()) {
+		propPairs.push(current.trim());
 	}
-	return text;
+	return propPairs;
 }
 
 function parseComponent(
@@ -256,41 +539,10 @@ function parseComponent(
 	const match = line.trim().match(context.componentRegex);
 	if (match) {
 		const [, name, propsStr] = match;
-		const props: Record<string, string | number | boolean | AstNode> = {};
+		const props: Record<string, LiteralValue> = {};
 
 		if (propsStr) {
-			// split props, ignoring spaces within braces or quotes
-			const propPairs: string[] = [];
-			let current = "";
-			let braceDepth = 0;
-			let inQuotes = false;
-			for (let i = 0; i < propsStr.length; i++) {
-				const char = propsStr[i];
-				if (char === '"' && propsStr[i - 1] !== "\\") {
-					inQuotes = !inQuotes;
-					current += char;
-				} else if (!inQuotes) {
-					if (char === "{") {
-						braceDepth++;
-						current += char;
-					} else if (char === "}") {
-						braceDepth--;
-						current += char;
-					} else if (char === " " && braceDepth === 0) {
-						if (current.trim()) {
-							propPairs.push(current.trim());
-						}
-						current = "";
-					} else {
-						current += char;
-					}
-				} else {
-					current += char;
-				}
-			}
-			if (current.trim()) {
-				propPairs.push(current.trim());
-			}
+			const propPairs = splitProps(propsStr);
 			// parse each key=value
 			for (const prop of propPairs) {
 				const [key, ...rest] = prop.split("=");
@@ -322,7 +574,9 @@ function parseComponent(
 					const inner = value.slice(1, -1);
 					props[propName] = { type: "Expression", value: inner };
 				} else if (value.startsWith('"') && value.endsWith('"')) {
-					props[propName] = value.slice(1, -1);
+					props[propName] = value.slice(1, -1).replace(/\\"/g, '"');
+				} else if (value.startsWith("'") && value.endsWith("'")) {
+					props[propName] = value.slice(1, -1).replace(/\\'/g, "'");
 				} else if (value === "true" || value === "false") {
 					props[propName] = value === "true";
 				} else if (!isNaN(Number(value))) {
@@ -350,8 +604,13 @@ function parseDirective(line: string, context: ParseContext): AstNode | null {
 	const trimmedLine = line.trim();
 
 	if (trimmedLine.match(context.forRegex)) {
-		const [, variable, collection] = trimmedLine.match(context.forRegex)!;
-		return { type: "For", variable, collection, children: [] } as ForNode;
+		return parseForDirective(trimmedLine, context);
+	}
+	if (trimmedLine.match(context.emptyRegex)) {
+		return { type: "Empty", children: [] };
+	}
+	if (trimmedLine.match(context.onRegex)) {
+		return parseOnDirective(line, context);
 	}
 	if (trimmedLine.match(context.ifRegex)) {
 		const [, condition] = trimmedLine.match(context.ifRegex)!;
@@ -361,39 +620,375 @@ function parseDirective(line: string, context: ParseContext): AstNode | null {
 			type: "If",
 			condition: cleanCondition,
 			children: [],
-		} as IfNode;
+		};
+	}
+	if (trimmedLine.match(context.elifRegex)) {
+		const [, condition] = trimmedLine.match(context.elifRegex)!;
+		const exprMatch = condition.match(context.exprRegex);
+		return {
+			type: "ElseIf",
+			condition: exprMatch ? exprMatch[1] : condition,
+			children: [],
+		};
+	}
+	if (trimmedLine.match(context.elseRegex)) {
+		return { type: "Else", children: [] };
 	}
 
 	if (trimmedLine.match(context.fetchRegex)) {
-		const [, variable, initVariable, url, method, auth] = trimmedLine.match(
-			context.fetchRegex
-		)!;
-
-		const fetchNode: FetchNode = {
-			type: "Fetch",
-			url: "`" + url.trim() + "`", // Use template literal for URL
-			method: method ? method.toUpperCase().trim() : "GET",
-			headers: auth
-				? {
-						Authorization:
-							"Bearer ${localStorage.getItem('token')}",
-				  }
-				: {},
-			variable: variable.trim(),
-			initVariable: initVariable,
-		};
-		if (url) {
-			const fromMatch = variable.match(context.exprRegex);
-			if (fromMatch) {
-				fetchNode.url = fromMatch[1];
-			} else {
-				fetchNode.url = url.trim();
+		return parseFetchDirective(line, context);
+	}
+	if (trimmedLine.match(context.actionRegex)) {
+		return parseActionDirective(line, context);
+	}
+	if (trimmedLine.match(context.slotRegex)) {
+		const [, name] = trimmedLine.match(context.slotRegex)!;
+		return { type: "Slot", name, children: [] };
+	}
+	if (trimmedLine.match(context.loadingRegex)) {
+		return { type: "Loading", children: [] };
+	}
+	if (trimmedLine.match(context.errorRegex)) {
+		return { type: "Error", children: [] };
+	}
+
+	return null;
+}
+
+/**
+ * A `:name` line that is a reserved directive not matching its syntax, or a
+ * likely misspelling of one (`:fro item in items`), reported instead of
+ * being read as a component. A misspelling that is still a valid component
+ * line, such as `:date value={d}`, is only warned about and then parsed as
+ * a component, so it keeps generating what it did.
+ */
+function parseInvalidDirective(
+	line: string,
+	context: ParseContext
+): InvalidNode | null {
+	const match = /^(\s*):(\w+)(\s.*)?$/.exec(line);
+	if (!match) {
+		return null;
+	}
+	const [, indent, directive, rest = ""] = match;
+	const nameEnd = indent.length + 1 + directive.length;
+	const args = rest.trim();
+	let meant = directive;
+	let message: string;
+	let code: string;
+	let severity: DiagnosticSeverity = DiagnosticSeverity.Error;
+	let start = indent.length;
+	let end = nameEnd;
+	if (directiveNames.includes(directive)) {
+		message = `Malformed :${directive}, expected ${directiveSyntax[directive]}`;
+		code = "MalformedDirective";
+		if (args) {
+			// the arguments are what does not match
+			start = nameEnd + rest.indexOf(args);
+			end = start + args.length;
+		}
+	} else {
+		const suggestion = suggestDirective(directive);
+		if (!suggestion) {
+			return null;
+		}
+		message = `Unknown directive :${directive}, did you mean :${suggestion}?`;
+		code = "UnknownDirective";
+		meant = suggestion;
+		// every argument is a key=value prop
+		if (splitProps(args).every((prop) => /^[^=]+=.+$/.test(prop))) {
+			severity = DiagnosticSeverity.Warning;
+		}
+	}
+	context.diagnostics.push({
+		message,
+		line: context.currentLine + 1,
+		severity,
+		range: {
+			start: { line: context.currentLine, character: start },
+			end: { line: context.currentLine, character: end },
+		},
+		code,
+	});
+	return severity === DiagnosticSeverity.Error
+		? { type: "Invalid", directive: meant, children: [] }
+		: null;
+}
+
+// Whether `node` is a broken line of one of `directives`. Blocks that would
+// attach to it are kept under it without a second error.
+function isInvalid(
+	node: AstNode | null | undefined,
+	...directives: string[]
+): node is InvalidNode {
+	return node?.type === "Invalid" && directives.includes(node.directive);
+}
+
+// Index just past the `}` that closes the `{` at `start`, or -1
+function matchingBrace(text: string, start: number): number {
+	let depth = 0;
+	for (let i = start; i < text.length; i++) {
+		if (text[i] === "{") {
+			depth++;
+		} else if (text[i] === "}" && --depth === 0) {
+			return i + 1;
+		}
+	}
+	return -1;
+}
+
+// :for item in items
+// :for (item, i) in {items.filter(...)} key={item.id}
+function parseForDirective(line: string, context: ParseContext): ForNode {
+	const [, item, index, single, rest] = line.match(context.forRegex)!;
+	const node: ForNode = {
+		type: "For",
+		variable: item ?? single,
+		index,
+		collection: "",
+		children: [],
+	};
+	let remainder = rest.trim();
+	if (remainder.startsWith("{")) {
+		const end = matchingBrace(remainder, 0);
+		if (end > 0) {
+			node.collection = remainder.slice(1, end - 1).trim();
+			remainder = remainder.slice(end).trim();
+		}
+	} else {
+		const [collection] = remainder.match(/^[\w.]+/) ?? [""];
+		node.collection = collection;
+		remainder = remainder.slice(collection.length).trim();
+	}
+	if (remainder.startsWith("key={")) {
+		const end = matchingBrace(remainder, 4);
+		if (end > 0) {
+			node.key = remainder.slice(5, end - 1).trim();
+			remainder = remainder.slice(end).trim();
+		}
+	}
+	if (!node.collection || remainder) {
+		const indent = context.lines[context.currentLine].search(/\S/);
+		context.diagnostics.push({
+			message:
+				"Invalid :for, expected `:for item in items`, `:for (item, i) in {expression}` and an optional key={...}",
+			line: context.currentLine + 1,
+			severity: DiagnosticSeverity.Error,
+			range: {
+				start: { line: context.currentLine, character: indent },
+				end: {
+					line: context.currentLine,
+					character: indent + line.length,
+				},
+			},
+			code: "InvalidFor",
+		});
+	}
+	return node;
+}
+
+// :on click => setCount(count + 1)
+// :on change(e) => setName(e.target.value)
+function parseOnDirective(line: string, context: ParseContext): OnNode {
+	const trimmedLine = line.trim();
+	const [, event, parameter, inline] = trimmedLine.match(context.onRegex)!;
+	const indent = line.search(/\S/);
+	const node: OnNode = {
+		type: "On",
+		event,
+		prop: reactEventProp(event) ?? "",
+		parameter: parameter || undefined,
+		body: [],
+	};
+	if (inline.trim()) {
+		node.body.push(inline.trim());
+		node.bodyPositions = [
+			{
+				line: context.currentLine,
+				column: indent + trimmedLine.lastIndexOf(inline.trim()),
+			},
+		];
+	}
+	if (!node.prop) {
+		const start = indent + trimmedLine.indexOf(event, 3);
+		context.diagnostics.push({
+			message: `Unknown event '${event}', expected a DOM event such as click, change or submit`,
+			line: context.currentLine + 1,
+			severity: DiagnosticSeverity.Error,
+			range: {
+				start: { line: context.currentLine, character: start },
+				end: {
+					line: context.currentLine,
+					character: start + event.length,
+				},
+			},
+			code: "InvalidEvent",
+		});
+	}
+	return node;
+}
+
+// URL and options shared by :fetch and :action: the URL ("...", `...`,
+// {expression} or a bare path) followed, in any order, by a method, auth,
+// body={...}, headers={...} and `name=value` options accepted by
+// `extraOption`. Returns the options that were not understood.
+function parseRequest(
+	text: string,
+	node: RequestOptions,
+	extraOption: (name: string, value: string) => boolean = () => false
+): string[] {
+	const invalid: string[] = [];
+	let remainder = text.trim();
+	const quote = remainder[0];
+	if (quote === '"' || quote === "'" || quote === "`") {
+		const end = remainder.indexOf(quote, 1);
+		node.url = remainder.slice(1, end < 0 ? undefined : end);
+		remainder = end < 0 ? "" : remainder.slice(end + 1);
+	} else if (quote === "{") {
+		const end = matchingBrace(remainder, 0);
+		node.url =
+			"${" +
+			remainder.slice(1, end < 0 ? undefined : end - 1).trim() +
+			"}";
+		remainder = end < 0 ? "" : remainder.slice(end);
+	} else {
+		const [url] = remainder.match(/^\S+/) ?? [""];
+		node.url = url;
+		remainder = remainder.slice(url.length);
+	}
+	while ((remainder = remainder.trim())) {
+		const option = remainder.match(/^(\w+)(=\{|=(\w+))?/);
+		const word = option?.[1] ?? remainder.split(/\s/)[0];
+		if (option?.[2] === "={") {
+			const end = matchingBrace(remainder, word.length + 1);
+			const value = remainder
+				.slice(word.length + 2, end < 0 ? undefined : end - 1)
+				.trim();
+			if (word === "body") {
+				node.body = value;
+			} else if (word === "headers") {
+				node.headersExpression = value;
+			} else if (!extraOption(word, value)) {
+				invalid.push(word);
 			}
+			remainder = end < 0 ? "" : remainder.slice(end);
+			continue;
+		}
+		if (option?.[3]) {
+			if (!extraOption(word, option[3])) {
+				invalid.push(word);
+			}
+			remainder = remainder.slice(option[0].length);
+			continue;
 		}
-		return fetchNode;
+		if (/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)$/i.test(word)) {
+			node.method = word.toUpperCase();
+		} else if (word === "auth") {
+			node.auth = true;
+		} else {
+			invalid.push(word);
+		}
+		remainder = remainder.slice(word.length);
 	}
+	return invalid;
+}
 
-	return null;
+function reportInvalidRequest(
+	line: string,
+	context: ParseContext,
+	message: string,
+	code: string
+): void {
+	const indent = line.search(/\S/);
+	context.diagnostics.push({
+		message,
+		line: context.currentLine + 1,
+		severity: DiagnosticSeverity.Error,
+		range: {
+			start: { line: context.currentLine, character: indent },
+			end: {
+				line: context.currentLine,
+				character: indent + line.trim().length,
+			},
+		},
+		code,
+	});
+}
+
+// :fetch recipes(Recipe[]) from "/api/recipes?page=${page}" POST auth
+//   body={form} headers={{ "X-Api-Key": apiKey }}
+function parseFetchDirective(line: string, context: ParseContext): FetchNode {
+	const [, variable, initVariable, rest] = line
+		.trim()
+		.match(context.fetchRegex)!;
+	const node: FetchNode = {
+		type: "Fetch",
+		url: "",
+		method: "GET",
+		headers: {},
+		variable,
+		initVariable: initVariable?.trim() || undefined,
+	};
+	const invalid = parseRequest(rest, node);
+	if (!node.url) {
+		reportInvalidRequest(
+			line,
+			context,
+			':fetch needs a URL: `:fetch name from "/api/..."`',
+			"InvalidFetch"
+		);
+	} else if (invalid.length) {
+		reportInvalidRequest(
+			line,
+			context,
+			`Unknown :fetch option ${invalid.join(
+				", "
+			)}, expected a method, auth, body={...} or headers={...}`,
+			"InvalidFetch"
+		);
+	}
+	return node;
+}
+
+// :action saveRecipe POST "/api/recipes" body={form} refetch=recipes
+// :action deleteRecipe(id: number) DELETE "/api/recipes/${id}"
+function parseActionDirective(line: string, context: ParseContext): ActionNode {
+	const [, name, parameters, method, rest] = line
+		.trim()
+		.match(context.actionRegex)!;
+	const node: ActionNode = {
+		type: "Action",
+		name,
+		parameters: parameters?.trim() ?? "",
+		url: "",
+		method: method?.toUpperCase() ?? "POST",
+		headers: {},
+	};
+	const invalid = parseRequest(rest, node, (option, value) => {
+		if (option !== "refetch" || !/^\w+$/.test(value)) {
+			return false;
+		}
+		node.refetch = value;
+		return true;
+	});
+	if (!node.url) {
+		reportInvalidRequest(
+			line,
+			context,
+			':action needs a URL: `:action name POST "/api/..."`',
+			"InvalidAction"
+		);
+	} else if (invalid.length) {
+		reportInvalidRequest(
+			line,
+			context,
+			`Unknown :action option ${invalid.join(
+				", "
+			)}, expected auth, body={...}, headers={...} or refetch=name`,
+			"InvalidAction"
+		);
+	}
+	return node;
 }
 
 // Parse function directive and create FunctionNode
@@ -426,13 +1021,13 @@ function parseFunction(
 function handleIndentation(
 	indent: number,
 	context: ParseContext
-): AstNode | null {
+): BlockNode | null {
 	// Pop contexts when current indent is not greater than parent's indent
 	while (
 		context.stack.length > 0 &&
 		indent <= context.stack[context.stack.length - 1].indent
 	) {
-		context.stack.pop();
+		closeBlock(context.stack.pop()!.node, context);
 	}
 	// The remaining top of stack (if any) is the parent for deeper indented nodes
 	return context.stack.length > 0
@@ -440,110 +1035,602 @@ function handleIndentation(
 		: null;
 }
 
-function parseLine(line: string, context: ParseContext): void {
-	const indent = line.match(/^\s*/)?.[0].length || 0;
-	const parent = handleIndentation(indent, context);
+// End a block popped off the stack at the last line parsed inside it, so
+// its range covers all of its nested lines
+function closeBlock(node: BlockNode, context: ParseContext): void {
+	if (context.lastLine > (node.endLine ?? -1)) {
+		node.endLine = context.lastLine;
+		node.endColumn = context.lines[context.lastLine].trimEnd().length;
+	}
+}
 
-	// if we're inside a function block, capture raw body lines
-	if (parent && parent.type === "JavaScript") {
-		const fnNode = parent as JavaScriptNode;
-		// check if it is import statement
-		if (line.trim().startsWith("import ")) {
-			const importMatch = line.trim().match(context.importRegex);
-			if (importMatch) {
-				context.imports.push(importMatch[0]);
-				return;
-			}
-		}
-		fnNode.body.push(line.trim());
-		fnNode.endLine = context.currentLine;
+// The list a node under `parent` is added to: the parent's children or the
+// top level
+function siblingsOf(
+	parent: BlockNode | null,
+	context: ParseContext
+): AstNode[] {
+	if (!parent) {
+		return context.ast;
+	}
+	return isParentNode(parent) ? (parent.children ??= []) : [];
+}
+
+// Attach an :elif/:else to the :if right before it at the same indentation
+function attachBranch(
+	node: ElseIfNode | ElseNode,
+	indent: number,
+	parent: BlockNode | null,
+	context: ParseContext
+): void {
+	const siblings = siblingsOf(parent, context);
+	const previous = siblings[siblings.length - 1];
+	const directive = node.type === "Else" ? ":else" : ":elif";
+	if (isInvalid(previous, "if", "elif")) {
+		previous.children.push(node);
+		context.stack.push({ node: previous, indent });
+		return;
+	}
+	const range = {
+		start: { line: context.currentLine, character: indent },
+		end: { line: context.currentLine, character: node.endColumn ?? indent },
+	};
+	if (
+		!previous ||
+		previous.type !== "If" ||
+		previous.startColumn !== indent
+	) {
+		context.diagnostics.push({
+			message: `${directive} must follow an :if block at the same indentation`,
+			line: context.currentLine + 1,
+			severity: DiagnosticSeverity.Error,
+			range,
+			code: "DanglingElse",
+		});
+		return;
+	}
+	const branches = (previous.branches ??= []);
+	if (branches.some((b) => b.type === "Else")) {
+		context.diagnostics.push({
+			message: `${directive} cannot follow :else; :else must be the last branch`,
+			line: context.currentLine + 1,
+			severity: DiagnosticSeverity.Error,
+			range,
+			code: "ElseNotLast",
+		});
 		return;
 	}
+	branches.push(node);
+	// the :if stays open until its last branch ends
+	context.stack.push({ node: previous, indent });
+}
 
-	const node =
+// Attach an :empty block to the :for it is nested in
+function attachEmpty(
+	node: EmptyNode,
+	indent: number,
+	parent: BlockNode | null,
+	context: ParseContext
+): void {
+	const range = {
+		start: { line: context.currentLine, character: indent },
+		end: { line: context.currentLine, character: node.endColumn ?? indent },
+	};
+	if (isInvalid(parent, "for", "forEach")) {
+		parent.children.push(node);
+		return;
+	}
+	if (!parent || parent.type !== "For") {
+		context.diagnostics.push({
+			message: ":empty must be nested inside a :for block",
+			line: context.currentLine + 1,
+			severity: DiagnosticSeverity.Error,
+			range,
+			code: "EmptyOutsideFor",
+		});
+		return;
+	}
+	if (parent.empty) {
+		context.diagnostics.push({
+			message: "A :for block can only have one :empty block",
+			line: context.currentLine + 1,
+			severity: DiagnosticSeverity.Error,
+			range,
+			code: "DuplicateEmpty",
+		});
+		return;
+	}
+	parent.empty = node;
+}
+
+// Attach an :on handler to the element it is nested under: the markdown
+// element right before it, or the enclosing component
+function attachHandler(
+	node: OnNode,
+	indent: number,
+	parent: BlockNode | null,
+	context: ParseContext
+): void {
+	const siblings = siblingsOf(parent, context);
+	const previous = siblings[siblings.length - 1];
+	let target: ComponentNode | MarkdownNode | null = null;
+	if (previous?.type === "Markdown" && (previous.startColumn ?? 0) < indent) {
+		target = previous;
+	} else if (parent?.type === "Component" || parent?.type === "Markdown") {
+		target = parent;
+	}
+	if (!target) {
+		context.diagnostics.push({
+			message: ":on must be nested under a component or markdown element",
+			line: context.currentLine + 1,
+			severity: DiagnosticSeverity.Error,
+			range: {
+				start: { line: context.currentLine, character: indent },
+				end: {
+					line: context.currentLine,
+					character: node.endColumn ?? indent,
+				},
+			},
+			code: "OrphanEvent",
+		});
+		return;
+	}
+	if (node.prop) {
+		(target.children ??= []).push(node);
+	}
+}
+
+// Attach a :loading/:error block to the :fetch it is nested in
+function attachFetchState(
+	node: LoadingNode | ErrorNode,
+	indent: number,
+	parent: BlockNode | null,
+	context: ParseContext
+): void {
+	const directive = node.type === "Loading" ? ":loading" : ":error";
+	const range = {
+		start: { line: context.currentLine, character: indent },
+		end: { line: context.currentLine, character: node.endColumn ?? indent },
+	};
+	if (isInvalid(parent, "fetch")) {
+		parent.children.push(node);
+		return;
+	}
+	if (!parent || parent.type !== "Fetch") {
+		context.diagnostics.push({
+			message: `${directive} must be nested inside a :fetch`,
+			line: context.currentLine + 1,
+			severity: DiagnosticSeverity.Error,
+			range,
+			code: "FetchStateOutsideFetch",
+		});
+		return;
+	}
+	const key = node.type === "Loading" ? "loading" : "error";
+	if (parent[key]) {
+		context.diagnostics.push({
+			message: `A :fetch can only have one ${directive} block`,
+			line: context.currentLine + 1,
+			severity: DiagnosticSeverity.Error,
+			range,
+			code: "DuplicateFetchState",
+		});
+		return;
+	}
+	if (node.type === "Loading") {
+		parent.loading = node;
+	} else {
+		parent.error = node;
+	}
+}
+
+// Split `text` at top-level occurrences of `separator`, skipping the ones
+// nested in (), [], {}, <> or strings; returns each part with its offset
+function splitTopLevel(
+	text: string,
+	separator: string
+): { text: string; start: number }[] {
+	const parts: { text: string; start: number }[] = [];
+	let depth = 0;
+	let quote = "";
+	let start = 0;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quote) {
+			if (char === quote && text[i - 1] !== "\\") {
+				quote = "";
+			}
+		} else if (char === '"' || char === "'" || char === "`") {
+			quote = char;
+		} else if ("([{<".includes(char)) {
+			depth++;
+		} else if (
+			")]}".includes(char) ||
+			(char === ">" && text[i - 1] !== "=")
+		) {
+			depth--;
+		} else if (
+			depth === 0 &&
+			char === separator &&
+			// `=` of a default value, not of `=>`, `==`, `<=` or `!=`
+			(separator !== "=" ||
+				(!"=><!".includes(text[i + 1] ?? "") &&
+					!"=><!".includes(text[i - 1] ?? "")))
+		) {
+			parts.push({ text: text.slice(start, i), start });
+			start = i + 1;
+		}
+	}
+	parts.push({ text: text.slice(start), start });
+	return parts;
+}
+
+// Net `{` count of a line, ignoring braces inside string literals
+function braceBalance(text: string): number {
+	let depth = 0;
+	let quote = "";
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quote) {
+			if (char === quote && text[i - 1] !== "\\") {
+				quote = "";
+			}
+		} else if (char === '"' || char === "'" || char === "`") {
+			quote = char;
+		} else if (char === "{") {
+			depth++;
+		} else if (char === "}") {
+			depth--;
+		}
+	}
+	return depth;
+}
+
+// `+ ...` or `| prop=...` continuation line; a `|` line without a prop, or
+// one that also ends with `|` such as `| key=1 | x |`, is a table row
+function isContinuationLine(content: string): boolean {
+	return (
+		/^(\+|\|\s*[\w-]+=)/.test(content) &&
+		!/^\|.*\|$/.test(content)
+	);
+}
+
+/**
+ * Number of lines after `lines[index]` that continue it: lines indented
+ * deeper than it that start with `+` or `|` followed by a prop, and any
+ * lines while a `{` is left open. Only `:` lines other than `:js` and
+ * `:on` (whose bodies are raw code) can be continued.
+ */
+export function continuationCount(lines: string[], index: number): number {
+	const first = lines[index] ?? "";
+	const trimmed = first.trim();
+	if (!/^:\w/.test(trimmed) || /^:(js|on)\b/.test(trimmed)) {
+		return 0;
+	}
+	const indent = first.search(/\S/);
+	let depth = braceBalance(trimmed);
+	let count = 0;
+	for (let i = index + 1; i < lines.length; i++) {
+		const line = lines[i];
+		const content = line.trim();
+		if (depth > 0) {
+			depth += braceBalance(content);
+		} else if (
+			line.search(/\S/) > indent &&
+			isContinuationLine(content)
+		) {
+			depth += braceBalance(content.slice(1));
+		} else {
+			break;
+		}
+		count++;
+	}
+	return count;
+}
+
+// Join a line and its continuation lines into one logical line, recording
+// where each physical piece starts so columns can be mapped back
+function joinContinuation(
+	lines: string[],
+	index: number,
+	count: number
+): { text: string; pieces: ContinuationPiece[] } {
+	let text = lines[index];
+	const pieces: ContinuationPiece[] = [{ offset: 0, line: index, column: 0 }];
+	let depth = braceBalance(text);
+	for (let i = index + 1; i <= index + count; i++) {
+		const line = lines[i];
+		let column = line.search(/\S/);
+		if (column < 0) {
+			continue;
+		}
+		if (depth <= 0 && isContinuationLine(line.trim())) {
+			// drop the + or | marker
+			column = line.slice(column + 1).search(/\S/) + column + 1;
+		}
+		const content = line.slice(column).trimEnd();
+		depth += braceBalance(content);
+		text += " ";
+		pieces.push({ offset: text.length, line: i, column });
+		text += content;
+	}
+	return { text, pieces };
+}
+
+// Source position of a column in a joined logical line
+function continuationPosition(
+	pieces: ContinuationPiece[],
+	offset: number
+): { line: number; character: number } {
+	let piece = pieces[0];
+	for (const candidate of pieces) {
+		if (candidate.offset <= offset) {
+			piece = candidate;
+		}
+	}
+	return {
+		line: piece.line,
+		character: piece.column + offset - piece.offset,
+	};
+}
+
+// Return the block a line at `indent` would be nested in, without popping
+function enclosingBlock(indent: number, context: ParseContext): AstNode | null {
+	for (let i = context.stack.length - 1; i >= 0; i--) {
+		if (context.stack[i].indent < indent) {
+			return context.stack[i].node;
+		}
+	}
+	return null;
+}
+
+// Parse a line together with its continuation lines, mapping node ends and
+// diagnostics back to the physical lines. Returns the lines consumed.
+function parseLogicalLine(context: ParseContext): number {
+	const line = context.lines[context.currentLine];
+	if (context.fence) {
+		captureFenceLine(line, context);
+		return 1;
+	}
+	const parent = enclosingBlock(line.search(/\S/), context);
+	const count =
+		parent?.type === "JavaScript" || parent?.type === "On"
+			? 0
+			: continuationCount(context.lines, context.currentLine);
+	if (count === 0) {
+		parseLine(line, context);
+		return 1;
+	}
+	const { text, pieces } = joinContinuation(
+		context.lines,
+		context.currentLine,
+		count
+	);
+	const firstDiagnostic = context.diagnostics.length;
+	context.continuation = pieces;
+	parseLine(text, context);
+	context.continuation = undefined;
+	for (const diagnostic of context.diagnostics.slice(firstDiagnostic)) {
+		if (diagnostic.range.start.line !== context.currentLine) {
+			continue;
+		}
+		diagnostic.range = {
+			start: continuationPosition(
+				pieces,
+				diagnostic.range.start.character
+			),
+			end: continuationPosition(pieces, diagnostic.range.end.character),
+		};
+		diagnostic.line = diagnostic.range.start.line + 1;
+	}
+	return count + 1;
+}
+
+/**
+ * Parse a first-line signature such as
+ * `Card(items: Recipe[], size: number = 3, onSelect?: (id: number) => void)`.
+ * Types may be unions, arrays, generics or function types; a prop with a
+ * default value is optional. Returns null when the line is not a signature.
+ */
+export function parseSignature(line: string): {
+	name: string;
+	props: PropDefinition[];
+	// prop definitions that could not be parsed, with their column
+	invalid: { text: string; start: number }[];
+} | null {
+	const m = /^(\s*)(\w+)\((.*)\)\s*$/.exec(line);
+	if (!m) {
+		return null;
+	}
+	const [, indent, name, paramsRaw] = m;
+	const paramsStart = indent.length + name.length + 1;
+	const props: PropDefinition[] = [];
+	const invalid: { text: string; start: number }[] = [];
+	for (const part of splitTopLevel(paramsRaw, ",")) {
+		const spec = part.text.trim();
+		if (!spec) {
+			continue;
+		}
+		const start =
+			paramsStart + part.start + part.text.indexOf(spec.charAt(0));
+		const [declaration, ...defaults] = splitTopLevel(spec, "=");
+		const parts = /^(\w+)(\?)?\s*:\s*(.+)$/.exec(declaration.text.trim());
+		const defaultValue = defaults.length
+			? spec.slice(defaults[0].start).trim()
+			: undefined;
+		if (!parts || defaultValue === "") {
+			invalid.push({ text: spec, start });
+			continue;
+		}
+		props.push({
+			name: parts[1],
+			type: parts[3].trim(),
+			optional: !!parts[2] || defaultValue !== undefined,
+			...(defaultValue !== undefined ? { defaultValue } : {}),
+		});
+	}
+	return { name, props, invalid };
+}
+
+function parseLine(line: string, context: ParseContext): void {
+	const indent = line.match(/^\s*/)?.[0].length || 0;
+	const parent = handleIndentation(indent, context);
+
+	// indented lines under :on are the handler body
+	if (parent && parent.type === "On") {
+		parent.body.push(line.trim());
+		(parent.bodyPositions ??= []).push({
+			line: context.currentLine,
+			column: indent,
+		});
+		parent.endLine = context.currentLine;
+		return;
+	}
+
+	// the body of a broken :js or :on is code, not Lunor
+	if (
+		parent?.type === "Invalid" &&
+		(parent.directive === "js" || parent.directive === "on")
+	) {
+		return;
+	}
+
+	// if we're inside a function block, capture raw body lines
+	if (parent && parent.type === "JavaScript") {
+		// check if it is import statement
+		if (line.trim().startsWith("import ")) {
+			const importMatch = line.trim().match(context.importRegex);
+			if (importMatch) {
+				context.imports.push(importMatch[0]);
+				return;
+			}
+		}
+		parent.body.push(line.trim());
+		(parent.bodyPositions ??= []).push({
+			line: context.currentLine,
+			column: indent,
+		});
+		parent.endLine = context.currentLine;
+		return;
+	}
+
+	const node =
 		parseComment(line, context) ||
 		parseData(line, context) ||
 		parseFunction(line, context) ||
 		parseDirective(line, context) ||
+		parseInvalidDirective(line, context) ||
 		parseComponent(line, context) ||
 		(context.currentLine > 0 ? parseMarkdown(line, context) : null);
 
 	if (node) {
 		// attach overall position to every node
 		attachPosition(node, indent, indent + line.trim().length, context);
-		if (parent) {
-			(parent.children = parent.children || []).push(node);
-			if (
-				node.type === "Component" ||
-				node.type === "JavaScript" ||
-				node.type === "For" ||
-				node.type === "If" ||
-				(node.type === "Markdown" && node.tag === "ul")
-			) {
-				context.stack.push({ node, indent });
-			}
-		} else {
-			context.ast.push(node);
-			if (
-				node.type === "Component" ||
-				node.type === "JavaScript" ||
-				node.type === "For" ||
-				node.type === "If" ||
-				(node.type === "Markdown" && node.tag === "ul")
-			) {
-				context.stack.push({ node, indent });
-			}
+		if (node.type === "ElseIf" || node.type === "Else") {
+			attachBranch(node, indent, parent, context);
+			// children of the branch are parsed into it
+			context.stack.push({ node, indent });
+			return;
+		}
+		if (node.type === "On") {
+			attachHandler(node, indent, parent, context);
+			context.stack.push({ node, indent });
+			return;
+		}
+		if (node.type === "Loading" || node.type === "Error") {
+			attachFetchState(node, indent, parent, context);
+			context.stack.push({ node, indent });
+			return;
+		}
+		if (node.type === "Empty") {
+			attachEmpty(node, indent, parent, context);
+			context.stack.push({ node, indent });
+			return;
+		}
+		if (parent?.type === "Fetch") {
+			context.diagnostics.push({
+				message:
+					"Only :loading and :error blocks can be nested in a :fetch",
+				line: context.currentLine + 1,
+				severity: DiagnosticSeverity.Error,
+				range: {
+					start: { line: context.currentLine, character: indent },
+					end: {
+						line: context.currentLine,
+						character: node.endColumn ?? indent,
+					},
+				},
+				code: "InvalidFetchChild",
+			});
+			return;
+		}
+		if (
+			node.type === "Markdown" &&
+			attachMarkdownBlock(node, indent, parent, context)
+		) {
+			return;
+		}
+		siblingsOf(parent, context).push(node);
+		if (
+			node.type === "Component" ||
+			node.type === "JavaScript" ||
+			node.type === "For" ||
+			node.type === "If" ||
+			node.type === "Fetch" ||
+			node.type === "Slot" ||
+			node.type === "Invalid"
+		) {
+			context.stack.push({ node, indent });
 		}
 	}
 }
 
-export function parseLunor(text: string): {
-	ast: AstNode[];
-	diagnostics: {
-		code?: string;
-		range: {
-			start: { line: number; character: number };
-			end: { line: number; character: number };
-		};
-		severity: number;
-		message: string;
-		line: number;
-	}[];
-	component: ParentComponent | null;
-	imports: string[]; // List of imported components or modules
-} {
-	const diagnostics: {
-		message: string;
-		line: number;
-		range: {
-			start: { line: number; character: number };
-			end: { line: number; character: number };
-		};
-		severity: number;
-		code?: string; // Optional code for codeactions
-	}[] = [];
-	const lines = text.split("\n").map((line) => line.replace(/\r$/, ""));
-	const ast: AstNode[] = [];
-	const stack: { node: AstNode; indent: number }[] = [];
-	const imports: string[] = [];
-	const context: ParseContext = {
+// Parse state of each result, used to reparse the next version of its text
+const parsedDocuments = new WeakMap<
+	ParseResult,
+	{
+		lines: string[];
+		// diagnostics of the lines themselves, before the checks of the tree
+		diagnostics: Diagnostic[];
+	}
+>();
+
+function splitLines(text: string): string[] {
+	return text.split("\n").map((line) => line.replace(/\r$/, ""));
+}
+
+function createContext(lines: string[]): ParseContext {
+	return {
 		lines,
-		diagnostics,
-		imports, // List of imported components or modules
-		stack,
-		ast,
+		diagnostics: [],
+		imports: [], // List of imported components or modules
+		stack: [],
+		ast: [],
 		parentComponent: null,
 		currentLine: 0,
+		lastLine: 0,
 		markdownHeaderRegex: /^(#+)\s+(.+)$/,
 		markdownListRegex: /^-\s+(.+)$/,
-		markdownLinkRegex: /^\[([^\]]*)\]\(([^)]+)\)$/,
-		markdownImageRegex: /^!\[([^\]]*)\]\(([^)]+)\)$/,
+		markdownOrderedListRegex: /^(\d+)\.\s+(.+)$/,
+		markdownQuoteRegex: /^>\s?(.*)$/,
+		markdownFenceRegex: /^(`{3,}|~{3,})\s*([\w+#.-]*)$/,
+		markdownRuleRegex: /^(?:-{3,}|\*{3,}|_{3,})$/,
+		markdownTableRowRegex: /^\|(.*)\|$/,
 		componentRegex: /^:(\w+)(?:\s+(.+))?$/,
 		dataRegex: /^:data\s+(\w+)=(.+)$/,
-		forRegex: /^:(?:for|forEach)\s+(\w+)\s+in\s+([\w.]+)$/,
+		forRegex:
+			/^:(?:for|forEach)\s+(?:\(\s*(\w+)\s*(?:,\s*(\w+)\s*)?\)|(\w+))\s+in\s+(.+)$/,
 		ifRegex: /^:if\s+(.+)$/,
-		fetchRegex:
-			/^:fetch\s+(\w+)\s*\(\s*(\{[^}]*\}\[*\]*)\s*\)\s+from\s+["`]?([^"`]+)["`]?[ ]+(GET|POST|PUT|DELETE)\s?(auth)*$/,
+		elifRegex: /^:elif\s+(.+)$/,
+		elseRegex: /^:else$/,
+		emptyRegex: /^:empty$/,
+		onRegex: /^:on\s+(\w+)(?:\s*\(\s*(\w*)\s*\))?\s*=>(.*)$/,
+		fetchRegex: /^:fetch\s+(\w+)(?:\s*\((.*?)\))?\s+from\s+(.+)$/,
+		actionRegex:
+			/^:action\s+(\w+)(?:\s*\(([^)]*)\))?\s+(?:(GET|POST|PUT|PATCH|DELETE)\s+)?(.+)$/i,
+		slotRegex: /^:slot(?:\s+(\w+))?$/,
+		loadingRegex: /^:loading$/,
+		errorRegex: /^:error$/,
 		propRegex: /^(\w+):(.+)$/,
 		exprRegex: /\{(.+?)\}/,
 		stateRegex: /^:state\s+(\w+)=(.+)$/,
@@ -551,34 +1638,25 @@ export function parseLunor(text: string): {
 		importRegex:
 			/^import\s+(?:\*\s+as\s+\w+|\w+(?:\s*,\s*\{[^}]+\})?|\{[^}]+\})\s+from\s+['"][^'"]+['"];$/,
 	};
+}
 
-	// first line is always the component name
-	if (lines.length === 0 || !lines[0].trim()) {
-		diagnostics.push({
-			message: "Datoteka ne sme biti prazna",
-			line: 1,
-			severity: DiagnosticSeverity.Error,
-			range: {
-				start: { line: 0, character: 0 },
-				end: { line: 0, character: 0 },
-			},
-			code: "EmptyFile",
-		});
-		return { ast, diagnostics, component: null, imports };
-	}
-
-	for (; context.currentLine < lines.length; context.currentLine++) {
+// Parse the lines from `context.currentLine` up to `end`, then close the
+// blocks still open
+function parseLines(context: ParseContext, end: number): void {
+	const { lines } = context;
+	for (; context.currentLine < end; context.currentLine++) {
 		const line = lines[context.currentLine];
 
-		if (!line.trim()) {
+		// blank lines only matter inside a code fence
+		if (!line.trim() && !context.fence) {
 			continue;
 		}
 
 		// First line defines component name and props
 		if (context.currentLine === 0) {
 			const firstLine = line.trim();
-			const m = /^(\w+)\((.*)\)$/.exec(firstLine);
-			if (!m) {
+			const signature = parseSignature(line);
+			if (!signature) {
 				context.diagnostics.push({
 					message: `Invalid component signature: ${firstLine}`,
 					line: context.currentLine + 1,
@@ -594,57 +1672,240 @@ export function parseLunor(text: string): {
 				});
 				context.parentComponent = { name: firstLine };
 			} else {
-				const tag = m[1];
-				const paramsRaw = m[2];
-				const rawList = paramsRaw
-					.split(/,(?![^(]*\))/) // split by commas not inside parentheses
-					.map((s) => s.trim())
-					.filter(Boolean);
-				const props: {
-					name: string;
-					type: string;
-					optional?: boolean;
-				}[] = [];
-
-				for (const spec of rawList) {
-					const parts = /^(\w+)(\?)?:\s*(.+)$/.exec(spec);
-					if (parts) {
-						const propName = parts[1];
-						const optional = parts[2] || "";
-						const type = parts[3].trim();
-						props.push({
-							name: propName,
-							type,
-							optional: !!optional,
-						});
-					} else {
-						const charIndex = line.indexOf(spec);
-						context.diagnostics.push({
-							message: `Invalid prop definition: ${spec}`,
-							line: context.currentLine + 1,
-							severity: DiagnosticSeverity.Error,
-							range: {
-								start: {
-									line: context.currentLine,
-									character: charIndex,
-								},
-								end: {
-									line: context.currentLine,
-									character: charIndex + spec.length,
-								},
+				for (const invalid of signature.invalid) {
+					context.diagnostics.push({
+						message: `Invalid prop definition: ${invalid.text}`,
+						line: context.currentLine + 1,
+						severity: DiagnosticSeverity.Error,
+						range: {
+							start: {
+								line: context.currentLine,
+								character: invalid.start,
 							},
-							code: "InvalidPropDefinition",
-						});
-					}
+							end: {
+								line: context.currentLine,
+								character: invalid.start + invalid.text.length,
+							},
+						},
+						code: "InvalidPropDefinition",
+					});
 				}
-				context.parentComponent = { name: tag, props };
+				context.parentComponent = {
+					name: signature.name,
+					props: signature.props,
+				};
 			}
 		} else {
-			parseLine(line, context);
+			// skip continuation lines folded into this one
+			context.currentLine += parseLogicalLine(context) - 1;
+		}
+		if (lines[context.currentLine].trim()) {
+			context.lastLine = context.currentLine;
+		}
+	}
+
+	if (context.fence) {
+		const { node } = context.fence;
+		context.diagnostics.push({
+			message: `Code block is not closed with ${context.fence.marker}`,
+			line: node.startLine! + 1,
+			severity: DiagnosticSeverity.Warning,
+			range: {
+				start: { line: node.startLine!, character: node.startColumn! },
+				end: { line: node.startLine!, character: node.endColumn! },
+			},
+			code: "UnclosedCodeFence",
+		});
+		// the block runs to the end of the document
+		node.endLine = lines.length - 1;
+		node.endColumn = lines[lines.length - 1].length;
+		context.lastLine = node.endLine;
+	}
+	// blocks still open end with the document
+	while (context.stack.length > 0) {
+		closeBlock(context.stack.pop()!.node, context);
+	}
+}
+
+// Checks that need the whole tree, run after every parse
+function finishParse(context: ParseContext): ParseResult {
+	const lineDiagnostics = context.diagnostics.slice();
+	checkBindings(context.ast, context);
+	resolveFetchDependencies(context.ast, context);
+	checkActionRefetches(context.ast, context);
+
+	const result: ParseResult = {
+		ast: context.ast,
+		diagnostics: context.diagnostics,
+		component: context.parentComponent,
+		imports: context.imports,
+	};
+	parsedDocuments.set(result, {
+		lines: context.lines,
+		diagnostics: lineDiagnostics,
+	});
+	return result;
+}
+
+export function parseLunor(text: string): ParseResult {
+	const lines = splitLines(text);
+	const context = createContext(lines);
+
+	// first line is always the component name
+	if (lines.length === 0 || !lines[0].trim()) {
+		context.diagnostics.push({
+			message: "Datoteka ne sme biti prazna",
+			line: 1,
+			severity: DiagnosticSeverity.Error,
+			range: {
+				start: { line: 0, character: 0 },
+				end: { line: 0, character: 0 },
+			},
+			code: "EmptyFile",
+		});
+		return {
+			ast: context.ast,
+			diagnostics: context.diagnostics,
+			component: null,
+			imports: context.imports,
+		};
+	}
+
+	parseLines(context, lines.length);
+	return finishParse(context);
+}
+
+/**
+ * Parse a new version of the text `previous` was parsed from. When every
+ * changed line is nested in one top-level block, only that block is parsed
+ * again and the nodes after it are reused, moved in place, so `previous`
+ * must not be used afterwards. Anything else falls back to `parseLunor`.
+ */
+export function reparseLunor(previous: ParseResult, text: string): ParseResult {
+	const state = parsedDocuments.get(previous);
+	if (!state) {
+		return parseLunor(text);
+	}
+	const old = state.lines;
+	const lines = splitLines(text);
+	// unchanged lines at the start and at the end
+	let prefix = 0;
+	while (
+		prefix < old.length &&
+		prefix < lines.length &&
+		old[prefix] === lines[prefix]
+	) {
+		prefix++;
+	}
+	if (prefix === old.length && prefix === lines.length) {
+		return previous;
+	}
+	let suffix = 0;
+	while (
+		suffix < old.length - prefix &&
+		suffix < lines.length - prefix &&
+		old[old.length - 1 - suffix] === lines[lines.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	// the top-level block holding the change, from its unchanged first line
+	// up to the next top-level node
+	const { ast } = previous;
+	const index = ast.findIndex(
+		(node, i) =>
+			(node.startLine ?? 0) < prefix &&
+			old.length - suffix <= (ast[i + 1]?.startLine ?? old.length)
+	);
+	if (index < 0) {
+		return parseLunor(text);
+	}
+	const block = ast[index];
+	const delta = lines.length - old.length;
+	const start = block.startLine ?? 0;
+	const oldEnd = ast[index + 1]?.startLine ?? old.length;
+	const end = oldEnd + delta;
+	// a changed line outside the block would end it, and imports are
+	// collected for the whole file
+	const indent = block.startColumn ?? 0;
+	if (
+		lines
+			.slice(prefix, lines.length - suffix)
+			.some((line) => line.trim() && line.search(/\S/) <= indent) ||
+		[...old.slice(start, oldEnd), ...lines.slice(start, end)].some((line) =>
+			/^\s*import\s/.test(line)
+		)
+	) {
+		return parseLunor(text);
+	}
+
+	const context = createContext(lines);
+	context.parentComponent = previous.component;
+	context.currentLine = start;
+	parseLines(context, end);
+	// the new lines must parse into one block that ends where it did
+	if (
+		context.ast.length !== 1 ||
+		context.fence ||
+		context.currentLine !== end
+	) {
+		return parseLunor(text);
+	}
+	// and the block must not run on into the next node, as lists and
+	// tables do once the lines between them are gone
+	if (index + 1 < ast.length) {
+		const diagnostics = context.diagnostics.length;
+		parseLines(context, end + 1);
+		if (context.ast.length < 2) {
+			return parseLunor(text);
+		}
+		context.ast.pop();
+		context.diagnostics.length = diagnostics;
+	}
+
+	const after = ast.slice(index + 1);
+	if (delta !== 0) {
+		visit(after, { enter: (node) => moveNode(node, delta) });
+	}
+	const full = createContext(lines);
+	full.parentComponent = previous.component;
+	full.imports = previous.imports;
+	full.ast = [...ast.slice(0, index), context.ast[0], ...after];
+	full.diagnostics = [
+		...state.diagnostics.filter((d) => d.range.start.line < start),
+		...context.diagnostics,
+		...state.diagnostics
+			.filter((d) => d.range.start.line >= oldEnd)
+			.map((d) => moveDiagnostic(d, delta)),
+	];
+	return finishParse(full);
+}
+
+// Move a node, and the body lines of :js and :on, by `delta` lines
+function moveNode(node: AstNode, delta: number): void {
+	if (node.startLine !== undefined) {
+		node.startLine += delta;
+	}
+	if (node.endLine !== undefined) {
+		node.endLine += delta;
+	}
+	if (node.type === "JavaScript" || node.type === "On") {
+		for (const position of node.bodyPositions ?? []) {
+			position.line += delta;
 		}
 	}
+}
 
-	return { ast, diagnostics, component: context.parentComponent, imports };
+function moveDiagnostic(diagnostic: Diagnostic, delta: number): Diagnostic {
+	const { start, end } = diagnostic.range;
+	return {
+		...diagnostic,
+		line: diagnostic.line + delta,
+		range: {
+			start: { line: start.line + delta, character: start.character },
+			end: { line: end.line + delta, character: end.character },
+		},
+	};
 }
 
 function generateMarkdownNode(
@@ -652,67 +1913,289 @@ function generateMarkdownNode(
 	level: number,
 	indentFn: (n: number) => string
 ): string {
-	const styleAttr = node.attributes?.style
-		? ` className="${node.attributes.style}"`
-		: "";
+	const styleAttr = [
+		typeof node.attributes?.style === "string"
+			? `className=${jsxAttribute(node.attributes.style)}`
+			: "",
+		node.attributes?.start ? `start={${node.attributes.start}}` : "",
+		node.attributes?.align
+			? `style={{ textAlign: "${node.attributes.align}" }}`
+			: "",
+		...generateEventProps(node, level, indentFn),
+	]
+		.filter(Boolean)
+		.map((attr) => " " + attr)
+		.join("");
+	// :on handlers are emitted as attributes, not as children
+	const children = node.children?.filter((child) => child.type !== "On");
 	if (node.tag === "a") {
 		const href = node.attributes?.href;
-		const hrefValue =
-			href && typeof href === "object" && href.type === "Expression"
-				? `{${href.value}}`
-				: `"${href || ""}"`;
-		const textNode = node.children?.[0];
-		const textValue =
-			textNode &&
-			textNode.type === "Text" &&
-			typeof textNode.value === "object" &&
-			textNode.value.type === "Expression"
-				? `{${(textNode.value as ExpressionNode).value}}`
-				: textNode?.value || "";
+		const hrefValue = isExpression(href)
+			? `{${href.value}}`
+			: jsxAttribute(typeof href === "string" ? href : "");
 		return `${indentFn(
 			level
-		)}<a href=${hrefValue}${styleAttr}>${textValue}</a>`;
+		)}<a href=${hrefValue}${styleAttr}>${renderInline(children ?? [])}</a>`;
 	}
 	if (node.tag === "img") {
 		const src = node.attributes?.src;
-		const srcValue =
-			src && typeof src === "object" && src.type === "Expression"
-				? `{${src.value}}`
-				: `"${src || ""}"`;
-		return `${indentFn(level)}<img src=${srcValue} alt="${
-			node.attributes?.alt || ""
-		}"${styleAttr} />`;
+		const srcValue = isExpression(src)
+			? `{${src.value}}`
+			: jsxAttribute(typeof src === "string" ? src : "");
+		const alt = node.attributes?.alt;
+		return `${indentFn(level)}<img src=${srcValue} alt=${jsxAttribute(
+			typeof alt === "string" ? alt : ""
+		)}${styleAttr} />`;
+	}
+	if (node.tag === "hr") {
+		return `${indentFn(level)}<hr${styleAttr} />`;
+	}
+	if (node.tag === "pre") {
+		// the code is a string literal, so nothing in it is read as JSX
+		const language = node.language
+			? ` className="language-${node.language}"`
+			: "";
+		return `${indentFn(
+			level
+		)}<pre${styleAttr}><code${language}>{${JSON.stringify(
+			(node.code ?? []).join("\n")
+		)}}</code></pre>`;
 	}
 	if (node.tag === "strong" || node.tag === "em") {
-		const textNode = node.children?.[0];
-		const textValue =
-			textNode &&
-			textNode.type === "Text" &&
-			typeof textNode.value === "object" &&
-			textNode.value.type === "Expression"
-				? `{${(textNode.value as ExpressionNode).value}}`
-				: textNode?.value || "";
-		return `${indentFn(level)}<${node.tag}${styleAttr}>${textValue}</${
-			node.tag
-		}>`;
+		return `${indentFn(level)}<${node.tag}${styleAttr}>${renderInline(
+			children ?? []
+		)}</${node.tag}>`;
 	}
-	if (node.children) {
-		const childrenCode = node.children
+	const value = node.inline
+		? renderInline(node.inline)
+		: isExpression(node.value)
+		? `{${node.value.value}}`
+		: jsxText(node.value ?? "");
+	if (
+		children &&
+		(children.length > 0 || children.length === node.children!.length)
+	) {
+		// a list item keeps its text before nested content
+		const childrenCode = children
 			.map((child) => generateNode(child, level + 1, indentFn))
 			.join("\n");
 		return `${indentFn(level)}<${
 			node.tag
-		}${styleAttr}>\n${childrenCode}\n${indentFn(level)}</${node.tag}>`;
-	}
-	const value =
-		node.value &&
-		typeof node.value === "object" &&
-		node.value.type === "Expression"
-			? `{${(node.value as ExpressionNode).value}}`
-			: node.value || "";
+		}${styleAttr}>${value}\n${childrenCode}\n${indentFn(level)}</${
+			node.tag
+		}>`;
+	}
 	return `${indentFn(level)}<${node.tag}${styleAttr}>${value}</${node.tag}>`;
 }
 
+const bindableElements = ["input", "textarea", "select"];
+
+// bind={x} on a form element → value/checked and onChange props
+function bindingProps(
+	node: ComponentNode
+): [string, ComponentNode["props"][string]][] {
+	const bind = node.props.bind;
+	if (!bindableElements.includes(node.name) || !isExpression(bind)) {
+		return [["bind", bind]];
+	}
+	const name = bind.value.trim();
+	const setter = setterName(name);
+	const type = node.name === "input" ? node.props.type : undefined;
+	if (type === "checkbox") {
+		return [
+			["checked", { type: "Expression", value: name }],
+			[
+				"onChange",
+				{
+					type: "Expression",
+					value: `(e) => ${setter}(e.target.checked)`,
+				},
+			],
+		];
+	}
+	const newValue =
+		type === "number" || type === "range"
+			? "e.target.valueAsNumber"
+			: "e.target.value";
+	return [
+		["value", { type: "Expression", value: name }],
+		[
+			"onChange",
+			{ type: "Expression", value: `(e) => ${setter}(${newValue})` },
+		],
+	];
+}
+
+// Identifiers a :fetch reads, from `${...}` in its URL, its body and headers
+function fetchIdentifiers(node: FetchNode): Set<string> {
+	const sources = [
+		...Array.from(node.url.matchAll(/\$\{([^}]*)\}/g), (m) => m[1]),
+		node.body ?? "",
+		node.headersExpression ?? "",
+	];
+	const identifiers = new Set<string>();
+	for (const source of sources) {
+		for (const m of source.matchAll(/(?<![\w$.])[A-Za-z_$][\w$]*/g)) {
+			identifiers.add(m[0]);
+		}
+	}
+	return identifiers;
+}
+
+// Fill in the props and states each :fetch depends on
+function resolveFetchDependencies(ast: AstNode[], context: ParseContext): void {
+	const scope = new Set<string>(
+		context.parentComponent?.props?.map((p) => p.name) ?? []
+	);
+	const fetches: FetchNode[] = [];
+	visit(ast, {
+		State: (node) => {
+			scope.add(node.name);
+		},
+		Fetch: (node) => {
+			fetches.push(node);
+		},
+	});
+	for (const node of fetches) {
+		node.dependencies = Array.from(fetchIdentifiers(node)).filter((name) =>
+			scope.has(name)
+		);
+	}
+}
+
+// Position of `text` in the lines a node spans (including continuation
+// lines), or the node's start when it is not found
+function findInNode(
+	node: AstNode,
+	text: string,
+	context: ParseContext
+): { line: number; character: number } {
+	const first = node.startLine ?? 0;
+	for (let line = first; line <= (node.endLine ?? first); line++) {
+		const character = (context.lines[line] ?? "").indexOf(text);
+		if (character >= 0) {
+			return { line, character };
+		}
+	}
+	return { line: first, character: node.startColumn ?? 0 };
+}
+
+// Report :action refetch=name options that do not name a :fetch
+function checkActionRefetches(ast: AstNode[], context: ParseContext): void {
+	const fetched = new Set<string>();
+	const actions: ActionNode[] = [];
+	visit(ast, {
+		Fetch: (node) => {
+			fetched.add(fetchVariables(node).data);
+		},
+		Action: (node) => {
+			if (node.refetch) {
+				actions.push(node);
+			}
+		},
+	});
+	for (const node of actions) {
+		if (fetched.has(node.refetch!)) {
+			continue;
+		}
+		const { line, character: start } = findInNode(
+			node,
+			`refetch=${node.refetch}`,
+			context
+		);
+		context.diagnostics.push({
+			message: `refetch=${node.refetch} does not name a :fetch in this file`,
+			line: line + 1,
+			severity: DiagnosticSeverity.Error,
+			range: {
+				start: { line, character: start },
+				end: {
+					line,
+					character: start + "refetch=".length + node.refetch!.length,
+				},
+			},
+			code: "UnknownRefetch",
+		});
+	}
+}
+
+// Report bind={x} props whose target is not a form element or not a :state
+function checkBindings(ast: AstNode[], context: ParseContext): void {
+	const states = new Set<string>();
+	const bindings: ComponentNode[] = [];
+	visit(ast, {
+		State: (node) => {
+			states.add(node.name);
+		},
+		Component: (node) => {
+			if (node.props.bind) {
+				bindings.push(node);
+			}
+		},
+	});
+
+	for (const node of bindings) {
+		const { line, character: start } = findInNode(node, "bind=", context);
+		const lineText = context.lines[line] ?? "";
+		const end = lineText.indexOf("}", start) + 1 || lineText.length;
+		const range = {
+			start: { line, character: start },
+			end: { line, character: end },
+		};
+		const bind = node.props.bind;
+		if (!bindableElements.includes(node.name)) {
+			context.diagnostics.push({
+				message: `bind is only supported on ${bindableElements.join(
+					", "
+				)} elements`,
+				line: line + 1,
+				severity: DiagnosticSeverity.Error,
+				range,
+				code: "UnsupportedBind",
+			});
+		} else if (!isExpression(bind) || !states.has(bind.value.trim())) {
+			const name = isExpression(bind) ? bind.value.trim() : String(bind);
+			context.diagnostics.push({
+				message: `'${name}' is not declared with :state in this file`,
+				line: line + 1,
+				severity: DiagnosticSeverity.Error,
+				range,
+				code: "UnknownBindState",
+			});
+		}
+	}
+}
+
+// onX={...} props for the :on children of a component or markdown element
+function generateEventProps(
+	node: ComponentNode | MarkdownNode,
+	level: number,
+	indentFn: (n: number) => string
+): string[] {
+	return (node.children ?? [])
+		.filter((child): child is OnNode => child.type === "On")
+		.map((on) => {
+			const lines = on.body.map((line, i) => {
+				const pos = on.bodyPositions?.[i];
+				return (pos ? sourceMarker(pos.line, pos.column) : "") + line;
+			});
+			const marker =
+				on.startLine !== undefined
+					? sourceMarker(on.startLine, on.startColumn ?? 0)
+					: "";
+			const params = `(${on.parameter ?? ""})`;
+			if (lines.length === 1) {
+				return `${marker}${on.prop}={${params} => ${lines[0]}}`;
+			}
+			const body = lines
+				.map((line) => indentFn(level + 2) + line)
+				.join("\n");
+			return `${marker}${on.prop}={${params} => {\n${body}\n${indentFn(
+				level + 1
+			)}}}`;
+		});
+}
+
 function generateComponentNode(
 	node: ComponentNode,
 	level: number,
@@ -721,27 +2204,33 @@ function generateComponentNode(
 	// we should skip style otherwise it is twice in the props
 	const propsStr = Object.entries(node.props)
 		.filter(([key]) => key !== "style")
+		.flatMap(([key, value]): [string, ComponentNode["props"][string]][] =>
+			key === "bind" ? bindingProps(node) : [[key, value]]
+		)
 		.map(([key, value]) => {
-			if (
-				value &&
-				typeof value === "object" &&
-				value.type === "Expression"
-			) {
-				return `${key}={${(value as ExpressionNode).value}}`;
+			if (isExpression(value)) {
+				return `${key}={${value.value}}`;
 			}
 			if (typeof value === "string") {
-				return `${key}="${value}"`;
+				return `${key}=${jsxAttribute(value)}`;
 			}
 			return `${key}={${value}}`;
 		})
 		.join(" ");
 	// include style prop if present
-	const styleEntry = node.props.style
-		? typeof node.props.style === "string"
-			? `className="${node.props.style}"`
-			: `className={${(node.props.style as ExpressionNode).value}}`
+	const style = node.props.style;
+	const styleEntry = isExpression(style)
+		? `className={${style.value}}`
+		: typeof style === "string" && style
+		? `className=${jsxAttribute(style)}`
 		: "";
-	const fullProps = [propsStr, styleEntry].filter(Boolean).join(" ");
+	const fullProps = [
+		propsStr,
+		styleEntry,
+		...generateEventProps(node, level, indentFn),
+	]
+		.filter(Boolean)
+		.join(" ");
 	const childrenCode = node.children
 		.filter((child) => child.type !== "On")
 		.map((child) => generateNode(child, level + 1, indentFn))
@@ -749,7 +2238,7 @@ function generateComponentNode(
 		.join("\n");
 
 	// if there are no children, self-close the tag
-	if (node.children.length === 0 && !fullProps) {
+	if (!childrenCode && !fullProps) {
 		return `${indentFn(level)}<${node.name} />`;
 	}
 
@@ -763,14 +2252,9 @@ function generateComponentNode(
 
 function generateDataNode(node: DataNode, declarations: string[]): string {
 	// handle expression AST values directly
-	if (
-		typeof node.value === "object" &&
-		(node.value as ExpressionNode).type === "Expression"
-	) {
+	if (isExpression(node.value)) {
 		// emit raw expression
-		declarations.push(
-			`let ${node.name} = ${(node.value as ExpressionNode).value};`
-		);
+		declarations.push(`let ${node.name} = ${node.value.value};`);
 	} else {
 		// emit JSON literal for primitive values
 		declarations.push(`let ${node.name} = ${JSON.stringify(node.value)};`);
@@ -778,15 +2262,20 @@ function generateDataNode(node: DataNode, declarations: string[]): string {
 	return "";
 }
 
+// `count` → `setCount`
+export function setterName(name: string): string {
+	return "set" + name.charAt(0).toUpperCase() + name.slice(1);
+}
+
 function generateStateNode(
 	node: StateNode,
 	declarations: string[],
 	imports: string[]
 ): string {
 	declarations.push(
-		`const [${node.name}, set${
-			node.name.charAt(0).toUpperCase() + node.name.slice(1)
-		}] = useState(${JSON.stringify(node.value)});`
+		`const [${node.name}, ${setterName(
+			node.name
+		)}] = useState(${JSON.stringify(node.value)});`
 	);
 	if (!imports.includes("useState")) {
 		imports.push("useState");
@@ -794,48 +2283,215 @@ function generateStateNode(
 	return "";
 }
 
+// Variable names a :fetch exposes, e.g. recipes, recipesLoading,
+// recipesError and refetchRecipes
+export function fetchVariables(node: FetchNode): {
+	data: string;
+	loading: string;
+	error: string;
+	refetch: string;
+} {
+	const data = node.variable ?? "data";
+	const suffix = data.charAt(0).toUpperCase() + data.slice(1);
+	return {
+		data,
+		loading: `${data}Loading`,
+		error: `${data}Error`,
+		refetch: `refetch${suffix}`,
+	};
+}
+
+const AUTH_TOKEN_VARIABLE = "authToken";
+
+// Expression that yields the auth token for the configured strategy
+function authTokenExpression(auth: AuthConfig): string {
+	if (!auth.getter) {
+		return "localStorage.getItem('token')";
+	}
+	return isHookName(auth.getter) ? AUTH_TOKEN_VARIABLE : `${auth.getter}()`;
+}
+
+function isHookName(name: string): boolean {
+	return /^use[A-Z0-9]/.test(name);
+}
+
+// `fetch(...)` call for a :fetch or :action, plus the variables it reads
+// that are not known while parsing (the auth hook's token)
+function generateRequestCall(
+	node: RequestOptions,
+	declarations: string[],
+	config: LunorConfig
+): { code: string; dependencies: string[] } {
+	const headers = Object.entries(node.headers ?? {}).map(
+		([key, value]) => `${JSON.stringify(key)}: \`${value}\``
+	);
+	const dependencies: string[] = [];
+	if (node.auth) {
+		const auth = config.auth ?? {};
+		const token = "${" + authTokenExpression(auth) + "}";
+		const value = (auth.template ?? "Bearer ${token}").replace(
+			/\$\{token\}/g,
+			token
+		);
+		headers.push(
+			`${JSON.stringify(auth.header ?? "Authorization")}: \`${value}\``
+		);
+		if (auth.getter && isHookName(auth.getter)) {
+			const hookCall = `const ${AUTH_TOKEN_VARIABLE} = ${auth.getter}();`;
+			// declarations may already carry a source marker
+			if (!declarations.some((d) => d.endsWith(hookCall))) {
+				declarations.push(hookCall);
+			}
+			dependencies.push(AUTH_TOKEN_VARIABLE);
+		}
+	}
+	if (node.body) {
+		headers.unshift(`"Content-Type": "application/json"`);
+	}
+	if (node.headersExpression) {
+		headers.push(`...(${node.headersExpression})`);
+	}
+	const code = `fetch(\`${node.url}\`, {
+			method: '${node.method || "GET"}',
+			headers: ${headers.length ? `{ ${headers.join(", ")} }` : "{}"},
+			body: ${node.body ? `JSON.stringify(${node.body})` : "null"}
+		})`;
+	return { code, dependencies };
+}
+
 function generateFetchNode(
 	node: FetchNode,
+	level: number,
+	indentFn: (n: number) => string,
 	declarations: string[],
-	imports: string[]
+	imports: string[],
+	config: LunorConfig
 ): string {
 	if (!node.url) {
-		throw new Error("Fetch node must have a URL.");
+		// reported as InvalidFetch while parsing
+		return "";
 	}
+	const { data, loading, error, refetch } = fetchVariables(node);
 
-	const nodeURL = "`" + node.url + "`"; // Use template literal for URL
-	// if Authorization header is set, use it, but not around the token
+	const request = generateRequestCall(node, declarations, config);
+	const dependencies = [
+		...(node.dependencies ?? []),
+		...request.dependencies,
+	];
+	const fetchCode = request.code;
 
-	const fetchCode = `fetch(${nodeURL}, {
-  		method: '${node.method || "GET"}',
-  		headers: ${JSON.stringify(node.headers || {}).replace(
-			"\"Bearer ${localStorage.getItem('token')}\"",
-			'`Bearer ${localStorage.getItem("token")}`'
-		)},
-  		body: ${node.body ? JSON.stringify(node.body) : "null"}
-		})`;
+	for (const hook of ["useCallback", "useEffect", "useState"]) {
+		if (!imports.includes(hook)) {
+			imports.push(hook);
+		}
+	}
+	declarations.push(
+		`const [${data}, ${setterName(data)}] = useState<${
+			node.initVariable ?? "any"
+		}>();`,
+		`const [${loading}, ${setterName(loading)}] = useState(true);`,
+		`const [${error}, ${setterName(
+			error
+		)}] = useState<Error | null>(null);`,
+		`const ${refetch} = useCallback(() => {
+		${setterName(loading)}(true);
+		${setterName(error)}(null);
+		return ${fetchCode}
+		.then(response => {
+			if (!response.ok) {
+				throw new Error(\`\${response.status} \${response.statusText}\`);
+			}
+			return response.json();
+		})
+		.then(data => ${setterName(data)}(data))
+		.catch(error => ${setterName(
+			error
+		)}(error instanceof Error ? error : new Error(String(error))))
+		.finally(() => ${setterName(loading)}(false));
+	}, [${dependencies.join(", ")}]);`,
+		`useEffect(() => {
+		${refetch}();
+	}, [${refetch}]);`
+	);
+
+	// :loading / :error blocks render where the :fetch is written
+	const block = (condition: string, child?: LoadingNode | ErrorNode) => {
+		if (!child) {
+			return "";
+		}
+		const marker =
+			child.startLine !== undefined
+				? sourceMarker(child.startLine, child.startColumn ?? 0)
+				: "";
+		const childrenCode = child.children
+			.map((c) => generateNode(c, level + 1, indentFn))
+			.join("\n");
+		return `${indentFn(level)}${marker}{${condition} && (
+${indentFn(level)}<>
+${childrenCode}
+${indentFn(level)}</>
+${indentFn(level)})}`;
+	};
+	return [block(loading, node.loading), block(error, node.error)]
+		.filter(Boolean)
+		.join("\n");
+}
+
+// Variable names an :action exposes besides its function, e.g.
+// saveRecipePending and saveRecipeError
+export function actionVariables(node: ActionNode): {
+	pending: string;
+	error: string;
+} {
+	return { pending: `${node.name}Pending`, error: `${node.name}Error` };
+}
 
-	if (!imports.includes("useEffect")) {
-		imports.push("useEffect");
+function generateActionNode(
+	node: ActionNode,
+	declarations: string[],
+	imports: string[],
+	config: LunorConfig
+): string {
+	if (!node.url) {
+		// reported as InvalidAction while parsing
+		return "";
 	}
+	const { pending, error } = actionVariables(node);
+	const request = generateRequestCall(node, declarations, config);
+	const refetch = node.refetch
+		? `\n\t\t\t${
+				fetchVariables({
+					type: "Fetch",
+					url: "",
+					variable: node.refetch,
+				}).refetch
+		  }();`
+		: "";
 	if (!imports.includes("useState")) {
 		imports.push("useState");
 	}
-	const variableName = node.variable ?? "data";
-	declarations.push(
-		`const [${variableName}, set${
-			variableName.charAt(0).toUpperCase() + variableName.slice(1)
-		}] = useState<${node.initVariable}>();`
-	);
 	declarations.push(
-		`useEffect(() => {
-		${fetchCode}
-		.then(response => response.json())
-		.then(data => set${node.variable
-			?.charAt(0)
-			.toUpperCase()}${node.variable?.slice(1)}(data))
-		.catch(error => console.error('Fetch error:', error));
-	}, []);`
+		`const [${pending}, ${setterName(pending)}] = useState(false);`,
+		`const [${error}, ${setterName(
+			error
+		)}] = useState<Error | null>(null);`,
+		`const ${node.name} = async (${node.parameters}) => {
+		${setterName(pending)}(true);
+		${setterName(error)}(null);
+		try {
+			const response = await ${request.code};
+			if (!response.ok) {
+				throw new Error(\`\${response.status} \${response.statusText}\`);
+			}
+			const text = await response.text();
+			const result = text ? JSON.parse(text) : null;${refetch}
+			return result;
+		} catch (error) {
+			${setterName(error)}(error instanceof Error ? error : new Error(String(error)));
+		} finally {
+			${setterName(pending)}(false);
+		}
+	};`
 	);
 	return "";
 }
@@ -843,18 +2499,57 @@ function generateFetchNode(
 function generateForNode(
 	node: ForNode,
 	level: number,
-	indentFn: (n: number) => string
+	indentFn: (n: number) => string,
+	imports: string[]
 ): string {
-	const childrenCode = node.children
-		.map((child) => generateNode(child, level + 1, indentFn))
-		.join("\n");
-	return `${indentFn(level)}<>{${node.collection}.map((${
-		node.variable
-	}, i) => (
+	// generated names start with __, so they cannot hide the author's
+	const index = node.index ?? "__i";
+	const key = node.key ?? index;
+	const collection = /^[\w.]+$/.test(node.collection)
+		? node.collection
+		: `(${node.collection})`;
+	// with :empty the collection is bound once and read twice
+	const items = node.empty ? "__items" : collection;
+	const children = node.children.map((child) =>
+		generateNode(child, level + 1, indentFn)
+	);
+	// React wants the key on the outermost element of each item
+	const elementStart = /^(\s*(?:\uE000\d+:\d+\uE001)*<[A-Za-z][\w.]*)/;
+	const [only] = node.children;
+	let itemCode: string;
+	if (children.length === 1 && elementStart.test(children[0])) {
+		itemCode =
+			only.type === "Component" && "key" in only.props
+				? children[0]
+				: children[0].replace(elementStart, `$1 key={${key}}`);
+	} else {
+		if (!imports.includes("Fragment")) {
+			imports.push("Fragment");
+		}
+		itemCode = `${indentFn(level + 1)}<Fragment key={${key}}>
+${children.join("\n")}
+${indentFn(level + 1)}</Fragment>`;
+	}
+	const loop = `${items}.map((${node.variable}, ${index}) => (
 
-      ${childrenCode}
+      ${itemCode}
   ${indentFn(level)}
-  ))}</>`;
+  ))`;
+	if (!node.empty) {
+		return `${indentFn(level)}<>{${loop}}</>`;
+	}
+	const emptyCode = node.empty.children
+		.map((child) => generateNode(child, level + 1, indentFn))
+		.join("\n");
+	const marker =
+		node.empty.startLine !== undefined
+			? sourceMarker(node.empty.startLine, node.empty.startColumn ?? 0)
+			: "";
+	return `${indentFn(level)}<>{((${items}) => ${items}.length === 0 ? ${marker}(
+${indentFn(level)}<>
+${emptyCode}
+${indentFn(level)}</>
+${indentFn(level)}) : ${loop})(${collection})}</>`;
 }
 
 function generateIfNode(
@@ -862,20 +2557,45 @@ function generateIfNode(
 	level: number,
 	indentFn: (n: number) => string
 ): string {
-	const childrenCode = node.children
-		.map((child) => generateNode(child, level + 1, indentFn))
-		.join("\n");
-	return `${indentFn(level)}{${node.condition} && (${childrenCode}${indentFn(
-		level
-	)})}`;
+	const childrenCode = (children: AstNode[]) =>
+		children
+			.map((child) => generateNode(child, level + 1, indentFn))
+			.join("\n");
+	if (!node.branches?.length) {
+		return `${indentFn(level)}{${node.condition} && (${childrenCode(
+			node.children
+		)}${indentFn(level)})}`;
+	}
+	// :elif / :else turn the block into a ternary chain
+	const branchCode = (children: AstNode[]) =>
+		`(\n${indentFn(level)}<>\n${childrenCode(children)}\n${indentFn(
+			level
+		)}</>\n${indentFn(level)})`;
+	let code = `${indentFn(level)}{${node.condition} ? ${branchCode(
+		node.children
+	)}`;
+	for (const branch of node.branches) {
+		const marker =
+			branch.startLine !== undefined
+				? sourceMarker(branch.startLine, branch.startColumn ?? 0)
+				: "";
+		code +=
+			branch.type === "ElseIf"
+				? ` : ${marker}${branch.condition} ? ${branchCode(
+						branch.children
+				  )}`
+				: ` : ${marker}${branchCode(branch.children)}`;
+	}
+	const hasElse = node.branches.some((b) => b.type === "Else");
+	return `${code}${hasElse ? "" : " : null"}}`;
 }
 
 function generateCommentNode(
-	node: AstNode,
+	node: CommentNode,
 	level: number,
 	indentFn: (n: number) => string
 ): string {
-	return `${indentFn(level)}{/* ${node.value || ""} */}`;
+	return `${indentFn(level)}{/* ${jsxComment(node.value)} */}`;
 }
 
 function generateFunctionNode(
@@ -886,7 +2606,11 @@ function generateFunctionNode(
 ): string {
 	// indent each body line one level deeper
 	const bodyText = (node.body || [])
-		.map((line) => indentFn(level + 1) + line)
+		.map((line, i) => {
+			const pos = node.bodyPositions?.[i];
+			const marker = pos ? sourceMarker(pos.line, pos.column) : "";
+			return indentFn(level + 1) + marker + line;
+		})
 		.join("\n");
 
 	functions.push(`\n${bodyText}\n${indentFn(level)}`);
@@ -899,60 +2623,106 @@ function generateNode(
 	indentFn: (n: number) => string,
 	declarations: string[] = [],
 	imports: string[] = [],
-	functions: string[] = []
+	functions: string[] = [],
+	config: LunorConfig = {}
+): string {
+	const declarationCount = declarations.length;
+	const code = generateNodeCode(
+		node,
+		level,
+		indentFn,
+		declarations,
+		imports,
+		functions,
+		config
+	);
+	if (node.startLine === undefined) {
+		return code;
+	}
+	// mark emitted code and declarations with the node's source position
+	const marker = sourceMarker(node.startLine, node.startColumn ?? 0);
+	for (let i = declarationCount; i < declarations.length; i++) {
+		declarations[i] = marker + declarations[i];
+	}
+	return code ? code.replace(/^(\s*)/, `$1${marker}`) : code;
+}
+
+function generateNodeCode(
+	node: AstNode,
+	level: number,
+	indentFn: (n: number) => string,
+	declarations: string[],
+	imports: string[],
+	functions: string[],
+	config: LunorConfig
 ): string {
-	// handle special cases first
 	switch (node.type) {
 		case "Markdown":
-			return generateMarkdownNode(node as MarkdownNode, level, indentFn);
+			return generateMarkdownNode(node, level, indentFn);
 		case "Component":
-			return generateComponentNode(
-				node as ComponentNode,
-				level,
-				indentFn
-			);
+			return generateComponentNode(node, level, indentFn);
 		case "Fetch":
-			return generateFetchNode(node as FetchNode, declarations, imports);
-		case "Data":
-			return generateDataNode(node as DataNode, declarations);
-		case "JavaScript":
-			return generateFunctionNode(
-				node as JavaScriptNode,
+			return generateFetchNode(
+				node,
 				level,
 				indentFn,
-				functions
+				declarations,
+				imports,
+				config
 			);
-		case "Function":
-			return generateFunctionNode(
-				node as JavaScriptNode,
-				level,
-				indentFn,
-				functions
-			);
-
+		case "Data":
+			return generateDataNode(node, declarations);
+		case "JavaScript":
+			return generateFunctionNode(node, level, indentFn, functions);
+		case "Action":
+			return generateActionNode(node, declarations, imports, config);
+		case "Slot":
+			return generateSlotNode(node, level, indentFn);
 		case "State":
-			return generateStateNode(node as StateNode, declarations, imports);
+			return generateStateNode(node, declarations, imports);
 		case "For":
-			return generateForNode(node as ForNode, level, indentFn);
+			return generateForNode(node, level, indentFn, imports);
 		case "If":
-			return generateIfNode(node as IfNode, level, indentFn);
+			return generateIfNode(node, level, indentFn);
 		case "Comment":
 			return generateCommentNode(node, level, indentFn);
-		case "Text": {
-			const value =
-				node.value &&
-				typeof node.value === "object" &&
-				node.value.type === "Expression"
-					? `{${(node.value as ExpressionNode).value}}`
-					: node.value || "";
-			return typeof value === "string" ? value : String(value);
-		}
+		case "Text":
+			return isExpression(node.value)
+				? `{${node.value.value}}`
+				: jsxText(node.value);
 		default:
 			return "";
 	}
 }
 
-function discoverComponentFiles(workspaceRoot: string): Record<string, string> {
+// Collect every component tag (and router hook) used in the AST
+export function collectUsedComponents(ast: AstNode[]): Set<string> {
+	const used = new Set<string>();
+	visit(ast, {
+		Component: (node) => {
+			used.add(node.name);
+			// if component is Route and props contain element, add that element
+			const element = node.props.element;
+			if (node.name === "Route" && isExpression(element)) {
+				used.add(element.value.slice(1, -2)); // remove < and />
+			}
+		},
+		Data: (node) => {
+			// check if useParams is used
+			if (
+				isExpression(node.value) &&
+				node.value.value.startsWith("useParams")
+			) {
+				used.add("useParams");
+			}
+		},
+	});
+	return used;
+}
+
+export function discoverComponentFiles(
+	workspaceRoot: string
+): Record<string, string> {
 	const map: Record<string, string> = {};
 	// scan every .lnr under the root
 	const pattern = path.join(workspaceRoot, "**/*.lnr").replace(/\\/g, "/");
@@ -977,46 +2747,117 @@ function discoverComponentFiles(workspaceRoot: string): Record<string, string> {
 	}
 	return map;
 }
+
+// `componentFiles` can be passed in when many files are generated at once,
+// so the workspace is not scanned for each of them
 export function generateReactCode(
 	ast: AstNode[],
 	component: ParentComponent | null,
 	workspaceRoot: string,
-	importsJS: string[] = []
+	importsJS: string[] = [],
+	componentFiles: Record<string, string> = discoverComponentFiles(
+		workspaceRoot
+	)
+): string {
+	return stripSourceMarkers(
+		generateMarkedReactCode(
+			ast,
+			component,
+			workspaceRoot,
+			importsJS,
+			componentFiles
+		)
+	);
+}
+
+// Same as generateReactCode, but also returns a v3 source map that maps
+// emitted elements, declarations and :js lines back to the Lunor source
+export function generateReactCodeWithSourceMap(
+	ast: AstNode[],
+	component: ParentComponent | null,
+	workspaceRoot: string,
+	importsJS: string[],
+	options: { file: string; source: string; sourceContent?: string },
+	componentFiles: Record<string, string> = discoverComponentFiles(
+		workspaceRoot
+	)
+): { code: string; map: SourceMapV3 } {
+	return extractSourceMap(
+		generateMarkedReactCode(
+			ast,
+			component,
+			workspaceRoot,
+			importsJS,
+			componentFiles
+		),
+		options
+	);
+}
+
+// Props rendered by :slot directives; the default slot is `children`
+function collectSlots(ast: AstNode[]): Set<string> {
+	const slots = new Set<string>();
+	visit(ast, {
+		Slot: (node) => {
+			slots.add(slotProp(node));
+		},
+	});
+	return slots;
+}
+
+function slotProp(node: SlotNode): string {
+	return node.name ?? "children";
+}
+
+function generateSlotNode(
+	node: SlotNode,
+	level: number,
+	indentFn: (n: number) => string
+): string {
+	const prop = slotProp(node);
+	if (node.children.length === 0) {
+		return `${indentFn(level)}{${prop}}`;
+	}
+	// nested lines are the fallback content
+	const fallback = node.children
+		.map((child) => generateNode(child, level + 1, indentFn))
+		.join("\n");
+	return `${indentFn(level)}{${prop} ?? (
+${indentFn(level)}<>
+${fallback}
+${indentFn(level)}</>
+${indentFn(level)})}`;
+}
+
+// Whether any :fetch or :action in the AST sends the auth header
+function usesAuth(ast: AstNode[]): boolean {
+	return someNode(
+		ast,
+		(node) =>
+			(node.type === "Fetch" || node.type === "Action") && !!node.auth
+	);
+}
+
+// Whether the file's own imports already bind `React`, e.g.
+// `import React from 'react'`, which a second import would collide with
+function bindsReact(importsJS: string[]): boolean {
+	return importsJS.some((statement) =>
+		/^import\s+(?:type\s+)?(?:\*\s+as\s+)?React\b/.test(statement.trim())
+	);
+}
+
+function generateMarkedReactCode(
+	ast: AstNode[],
+	component: ParentComponent | null,
+	workspaceRoot: string,
+	importsJS: string[],
+	lunorMap: Record<string, string>
 ): string {
 	const imports: string[] = [];
 	const declarations: string[] = [];
 	const functions: string[] = [];
 	// 1) collect every component tag used in the AST
-	const used = new Set<string>();
-	function collect(n: AstNode) {
-		if (n.type === "Component") {
-			used.add((n as ComponentNode).name);
-		}
-		// if component is Route and props contain element, add that element
-		if (n.type === "Component" && (n as ComponentNode).name === "Route") {
-			const elementProp = (n as ComponentNode).props["element"];
-			if (
-				typeof elementProp === "object" &&
-				elementProp.type === "Expression"
-			) {
-				used.add((elementProp as ExpressionNode).value.slice(1, -2)); // remove < and />
-			}
-		}
-
-		// check if useParams is used
-		if (
-			n.type === "Data" &&
-			typeof n.value === "object" &&
-			n.value.type === "Expression" &&
-			typeof n.value.value === "string" &&
-			n.value.value.startsWith("useParams")
-		) {
-			used.add("useParams");
-		}
-
-		n.children?.forEach(collect);
-	}
-	ast.forEach(collect);
+	const used = collectUsedComponents(ast);
 
 	const routerTags = [
 		"BrowserRouter",
@@ -1030,8 +2871,7 @@ export function generateReactCode(
 		? `import { ${routerTagsUsed.join(", ")} } from 'react-router-dom';\n`
 		: "";
 
-	// 2) build map of tag → relative .lnr path
-	const lunorMap = discoverComponentFiles(workspaceRoot);
+	// 2) resolve each tag through the map of tag → relative .lnr path
 	const importStmts = Array.from(used)
 		.map((tag) => {
 			if (tag[0] === tag[0].toLowerCase() || routerTags.includes(tag)) {
@@ -1048,9 +2888,10 @@ export function generateReactCode(
 	function indent(l: number) {
 		return "  ".repeat(l);
 	}
+	const config = loadLunorConfig(workspaceRoot);
 	const body = ast
 		.map((n) =>
-			generateNode(n, 2, indent, declarations, imports, functions)
+			generateNode(n, 2, indent, declarations, imports, functions, config)
 		)
 		.filter(Boolean)
 		.join("\n");
@@ -1062,9 +2903,20 @@ export function generateReactCode(
 		? declarations.map((d) => indent(1) + d).join("\n") + "\n"
 		: "";
 
-	const hasProps = component?.props && component.props.length > 0;
+	// :slot directives add optional ReactNode props
+	const signatureProps = [...(component?.props ?? [])];
+	for (const slot of collectSlots(ast)) {
+		if (!signatureProps.some((p) => p.name === slot)) {
+			signatureProps.push({
+				name: slot,
+				type: "React.ReactNode",
+				optional: true,
+			});
+		}
+	}
+	const hasProps = signatureProps.length > 0;
 	const propsType = `type ${component?.name}Props = {
-		${(component?.props ?? [])
+		${signatureProps
 			.map(({ name, type, optional }) => {
 				name = name.replace(/[^a-zA-Z0-9_]/g, "_");
 				return `\t${name}${optional ? "?" : ""}${
@@ -1074,25 +2926,39 @@ export function generateReactCode(
 			.join("\n")}
 };\n`;
 
-	const props = (component?.props ?? []).map(({ name }) => {
-		return `${name}`;
+	const props = signatureProps.map(({ name, defaultValue }) => {
+		return defaultValue !== undefined ? `${name} = ${defaultValue}` : name;
 	});
 
+	// token getter of the configured auth strategy
+	const authGetter = config.auth?.getter;
+	const authImport =
+		authGetter && config.auth?.from && usesAuth(ast)
+			? [`import { ${authGetter} } from '${config.auth.from}';`]
+			: [];
+
 	const importsTogether = importsJS
 		.concat(importStmts.filter((x): x is string => typeof x === "string"))
+		.concat(authImport)
+		.concat(
+			signatureProps.some((p) => p.type.includes("React.")) &&
+				!bindsReact(importsJS)
+				? ["import type * as React from 'react';"]
+				: []
+		)
 		.concat(routerImports)
 		.concat(hookImport);
 
 	return `// AUTO-GENERATED by LunorParser
 ${importsTogether.length > 0 ? importsTogether.join("\n") : ""}
 ${hasProps && propsType ? propsType : ""}
-${
-	hasProps
-		? `export default function ${component?.name || "App"}({${props}}: ${
-				component?.name
-		  }Props) {`
-		: `export default function ${component?.name || "App"}() {`
-}
+${sourceMarker(0, 0)}${
+		hasProps
+			? `export default function ${
+					component?.name || "App"
+			  }({${props}}: ${component?.name}Props) {`
+			: `export default function ${component?.name || "App"}() {`
+	}
 ${decls}
 ${functions.length > 0 ? functions.join("\n\n") + "\n" : ""}
   return (
@@ -0,0 +1,173 @@
+// Source positions are threaded through the string-based code generator as
+// inline markers (private-use characters, never valid in Lunor or TSX).
+// `extractSourceMap` removes them and turns their positions into mappings.
+const MARKER_START = "\uE000";
+const MARKER_END = "\uE001";
+const markerRegex = /\uE000(\d+):(\d+)\uE001/g;
+
+export interface SourceMapV3 {
+	version: 3;
+	file: string;
+	sources: string[];
+	sourcesContent?: string[];
+	names: string[];
+	mappings: string;
+}
+
+/**
+ * Marker for a zero-based Lunor position, placed right before the code it maps.
+ */
+export function sourceMarker(line: number, column: number): string {
+	return `${MARKER_START}${line}:${column}${MARKER_END}`;
+}
+
+/**
+ * Remove every marker without building a map.
+ */
+export function stripSourceMarkers(code: string): string {
+	return code.replace(markerRegex, "");
+}
+
+const base64Chars =
+	"ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function encodeVlq(value: number): string {
+	let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+	let result = "";
+	do {
+		let digit = vlq & 31;
+		vlq >>>= 5;
+		if (vlq > 0) {
+			digit |= 32;
+		}
+		result += base64Chars[digit];
+	} while (vlq > 0);
+	return result;
+}
+
+/**
+ * Strip the markers from generated code and build a v3 source map with one
+ * segment per marker.
+ */
+export function extractSourceMap(
+	markedCode: string,
+	options: { file: string; source: string; sourceContent?: string }
+): { code: string; map: SourceMapV3 } {
+	const lines = markedCode.split("\n");
+	const mappingLines: string[] = [];
+	// source line and column are relative to the previous segment
+	let prevSourceLine = 0;
+	let prevSourceColumn = 0;
+
+	const cleanLines = lines.map((line) => {
+		const segments: string[] = [];
+		let prevColumn = 0;
+		let clean = "";
+		let last = 0;
+		for (const match of line.matchAll(markerRegex)) {
+			clean += line.slice(last, match.index);
+			last = (match.index ?? 0) + match[0].length;
+			const sourceLine = Number(match[1]);
+			const sourceColumn = Number(match[2]);
+			segments.push(
+				encodeVlq(clean.length - prevColumn) +
+					encodeVlq(0) +
+					encodeVlq(sourceLine - prevSourceLine) +
+					encodeVlq(sourceColumn - prevSourceColumn)
+			);
+			prevColumn = clean.length;
+			prevSourceLine = sourceLine;
+			prevSourceColumn = sourceColumn;
+		}
+		clean += line.slice(last);
+		mappingLines.push(segments.join(","));
+		return clean;
+	});
+
+	const map: SourceMapV3 = {
+		version: 3,
+		file: options.file,
+		sources: [options.source],
+		names: [],
+		mappings: mappingLines.join(";"),
+	};
+	if (options.sourceContent !== undefined) {
+		map.sourcesContent = [options.sourceContent];
+	}
+	return { code: cleanLines.join("\n"), map };
+}
+
+export interface MappingSegment {
+	generatedColumn: number;
+	sourceLine: number;
+	sourceColumn: number;
+}
+
+function decodeVlq(segment: string): number[] {
+	const values: number[] = [];
+	let value = 0;
+	let shift = 0;
+	for (const char of segment) {
+		const digit = base64Chars.indexOf(char);
+		value += (digit & 31) << shift;
+		if (digit & 32) {
+			shift += 5;
+		} else {
+			values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+			value = 0;
+			shift = 0;
+		}
+	}
+	return values;
+}
+
+/**
+ * Decode the `mappings` of a source map into segments per generated line.
+ */
+export function decodeMappings(mappings: string): MappingSegment[][] {
+	let sourceLine = 0;
+	let sourceColumn = 0;
+	return mappings.split(";").map((line) => {
+		let generatedColumn = 0;
+		const segments: MappingSegment[] = [];
+		for (const raw of line.split(",")) {
+			if (!raw) {
+				continue;
+			}
+			const values = decodeVlq(raw);
+			generatedColumn += values[0];
+			if (values.length >= 4) {
+				sourceLine += values[2];
+				sourceColumn += values[3];
+				segments.push({ generatedColumn, sourceLine, sourceColumn });
+			}
+		}
+		return segments;
+	});
+}
+
+/**
+ * Find the source position of a zero-based generated position: the closest
+ * segment at or before it, searching earlier lines when the line itself has
+ * no mapping (`exact` is false then). Returns null before the first mapping.
+ */
+export function originalPositionFor(
+	lines: MappingSegment[][],
+	line: number,
+	column: number
+): { line: number; column: number; exact: boolean } | null {
+	for (let l = Math.min(line, lines.length - 1); l >= 0; l--) {
+		const segments = lines[l];
+		for (let i = segments.length - 1; i >= 0; i--) {
+			const seg = segments[i];
+			if (l < line || seg.generatedColumn <= column) {
+				return {
+					line: seg.sourceLine,
+					column: seg.sourceColumn,
+					exact: l === line,
+				};
+			}
+		}
+	}
+	return null;
+}
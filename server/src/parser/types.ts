@@ -1,80 +1,4 @@
-export interface AstNode {
-	type: string;
-	children?: AstNode[];
-	value?: string | number | boolean | AstNode;
-	tag?: string;
-	attributes?: Record<string, string | AstNode>;
-	// optional position info for LSP/document symbols
-	startLine?: number;
-	startColumn?: number;
-	endLine?: number;
-	endColumn?: number;
-}
-
-export interface MarkdownNode extends AstNode {
-	type: "Markdown";
-	tag: string;
-	value?: string | AstNode;
-	children?: AstNode[];
-	attributes?: Record<string, string | AstNode>;
-}
-
-export interface ComponentNode extends AstNode {
-	type: "Component";
-	name: string;
-	props: Record<string, string | number | boolean | AstNode>;
-	children: AstNode[];
-	styles?: Record<string, string>;
-	hoverStyles?: Record<string, string>;
-}
-
-export interface DataNode extends AstNode {
-	type: "Data";
-	name: string;
-	value: string | number | boolean | AstNode;
-}
-
-export interface StateNode extends AstNode {
-	type: "State";
-	name: string;
-	value: string | number | boolean | AstNode;
-}
-
-export interface ForNode extends AstNode {
-	type: "For";
-	variable: string;
-	collection: string;
-	children: AstNode[];
-}
-
-export interface IfNode extends AstNode {
-	type: "If";
-	condition: string;
-	children: AstNode[];
-}
-
-export interface FetchNode extends AstNode {
-	type: "Fetch";
-	url: string;
-	method?: string;
-	body?: string;
-	headers?: Record<string, string>;
-	variable?: string;
-	initVariable?: string;
-}
-
-export interface JavaScriptNode extends AstNode {
-	type: "JavaScript";
-	signature: string;
-	body: string[];
-	startLine?: number;
-	endLine?: number;
-}
-
-export interface ExpressionNode extends AstNode {
-	type: "Expression";
-	value: string;
-}
+import type { AstNode, BlockNode, MarkdownNode } from "./ast";
 
 export interface Diagnostic {
 	message: string;
@@ -87,23 +11,55 @@ export interface Diagnostic {
 	code?: string; // Optional code for diagnostics
 }
 
+export interface ParseResult {
+	ast: AstNode[];
+	diagnostics: Diagnostic[];
+	component: ParentComponent | null;
+	imports: string[]; // List of imported components or modules
+}
+
+// Start of a physical line within a logical line joined from continuations
+export interface ContinuationPiece {
+	// offset in the logical line
+	offset: number;
+	line: number;
+	column: number;
+}
+
 export interface ParseContext {
 	lines: string[];
 	diagnostics: Diagnostic[];
-	stack: { node: AstNode; indent: number }[];
+	stack: { node: BlockNode; indent: number }[];
 	ast: AstNode[];
 	imports: string[]; // List of imported components or modules
 	parentComponent: ParentComponent | null;
 	currentLine: number;
+	// last non-blank line parsed, where blocks popped off the stack end
+	lastLine: number;
+	// set while parsing a line joined with its continuation lines
+	continuation?: ContinuationPiece[];
+	// open fenced code block, its lines are captured verbatim
+	fence?: { node: MarkdownNode; indent: number; marker: string };
 	componentName?: string;
 	markdownHeaderRegex: RegExp;
 	markdownListRegex: RegExp;
-	markdownLinkRegex: RegExp;
-	markdownImageRegex: RegExp;
+	markdownOrderedListRegex: RegExp;
+	markdownQuoteRegex: RegExp;
+	markdownFenceRegex: RegExp;
+	markdownRuleRegex: RegExp;
+	markdownTableRowRegex: RegExp;
 	componentRegex: RegExp;
 	dataRegex: RegExp;
 	forRegex: RegExp;
 	ifRegex: RegExp;
+	elifRegex: RegExp;
+	elseRegex: RegExp;
+	emptyRegex: RegExp;
+	onRegex: RegExp;
+	actionRegex: RegExp;
+	slotRegex: RegExp;
+	loadingRegex: RegExp;
+	errorRegex: RegExp;
 	fetchRegex: RegExp;
 	propRegex: RegExp;
 	exprRegex: RegExp;
@@ -112,7 +68,15 @@ export interface ParseContext {
 	importRegex: RegExp;
 }
 
+export interface PropDefinition {
+	name: string;
+	type: string;
+	optional?: boolean;
+	// default value expression, e.g. `3` in `size: number = 3`
+	defaultValue?: string;
+}
+
 export interface ParentComponent {
 	name: string;
-	props?: { name: string; type: string; optional?: boolean }[];
+	props?: PropDefinition[];
 }
@@ -0,0 +1,349 @@
+import * as path from "path";
+import * as fs from "fs";
+import { URI } from "vscode-uri";
+import {
+	Range,
+	TextEdit,
+	TextDocumentEdit,
+	RenameFile,
+	WorkspaceEdit,
+} from "vscode-languageserver/node";
+import {
+	discoverComponentFiles,
+	parseLunor,
+	setterName,
+} from "./parser/lunorParser";
+import { childNodes, type AstNode } from "./parser/ast";
+import type { ParseResult } from "./parser/types";
+import {
+	componentNameAt,
+	findComponentDefinition,
+	findComponentReferences,
+} from "./navigation";
+
+export type RenameTarget =
+	| { kind: "component"; name: string; range: Range }
+	| { kind: "local"; name: string; range: Range };
+
+export function isValidIdentifier(name: string): boolean {
+	return /^[A-Za-z_$][\w$]*$/.test(name);
+}
+
+// Names declared with :state/:data, the props of the signature line and
+// the column ranges of :on and :js body code, by line
+function collectLocals({ ast, component }: ParseResult): {
+	names: Set<string>;
+	states: Set<string>;
+	code: Map<number, [number, number][]>;
+} {
+	const names = new Set<string>(component?.props?.map((p) => p.name) ?? []);
+	const states = new Set<string>();
+	const code = new Map<number, [number, number][]>();
+	const visit = (node: AstNode) => {
+		if (node.type === "State" || node.type === "Data") {
+			names.add(node.name);
+			if (node.type === "State") {
+				states.add(node.name);
+			}
+		}
+		if (node.type === "JavaScript" || node.type === "On") {
+			node.bodyPositions?.forEach(({ line, column }, i) => {
+				code.set(line, [
+					...(code.get(line) ?? []),
+					[column, column + node.body[i].length],
+				]);
+			});
+		}
+		childNodes(node).forEach(visit);
+	};
+	ast.forEach(visit);
+	return { names, states, code };
+}
+
+// Column ranges of a line that hold Lunor expressions
+function expressionSegments(lineText: string): [number, number][] {
+	const segments: [number, number][] = [];
+	const ifMatch = /^(\s*:(?:if|elif)\s+)(.+)$/.exec(lineText);
+	if (ifMatch) {
+		segments.push([ifMatch[1].length, lineText.length]);
+	}
+	const forMatch =
+		/^(\s*:(?:for|forEach)\s+(?:\([^)]*\)|\w+)\s+in\s+)([\w.]+)/.exec(
+			lineText
+		);
+	if (forMatch) {
+		segments.push([
+			forMatch[1].length,
+			forMatch[1].length + forMatch[2].length,
+		]);
+	}
+	// outermost {...} blocks
+	let depth = 0;
+	let start = 0;
+	for (let i = 0; i < lineText.length; i++) {
+		if (lineText[i] === "{") {
+			if (depth === 0) {
+				start = i + 1;
+			}
+			depth++;
+		} else if (lineText[i] === "}" && depth > 0) {
+			depth--;
+			if (depth === 0) {
+				segments.push([start, i]);
+			}
+		}
+	}
+	return segments;
+}
+
+// Parts of lineText[start, end) that are code: the text of string and
+// template literals is left out, `${...}` inside a template is kept
+function codeRanges(
+	lineText: string,
+	start: number,
+	end: number
+): [number, number][] {
+	const ranges: [number, number][] = [];
+	// brace depth at which each open `${` of a template started
+	const templates: number[] = [];
+	let depth = 0;
+	let quote = "";
+	let from = start;
+	for (let i = start; i < end; i++) {
+		const char = lineText[i];
+		if (quote) {
+			if (char === "\\") {
+				i++;
+			} else if (char === quote) {
+				quote = "";
+				from = i + 1;
+			} else if (
+				quote === "`" &&
+				char === "$" &&
+				lineText[i + 1] === "{"
+			) {
+				quote = "";
+				templates.push(depth++);
+				from = ++i + 1;
+			}
+		} else if (char === "'" || char === '"' || char === "`") {
+			ranges.push([from, i]);
+			quote = char;
+		} else if (char === "{") {
+			depth++;
+		} else if (char === "}") {
+			depth--;
+			if (templates[templates.length - 1] === depth) {
+				templates.pop();
+				ranges.push([from, i]);
+				quote = "`";
+			}
+		}
+	}
+	if (!quote) {
+		ranges.push([from, end]);
+	}
+	return ranges;
+}
+
+// Columns where `name` is used as an identifier in the segments, leaving out
+// string literals and object keys such as `{ name: 1 }`
+function usageColumns(
+	lineText: string,
+	segments: [number, number][],
+	name: string
+): number[] {
+	const usage = new RegExp(`(?<![\\w$.])${name}(?![\\w$])`, "g");
+	const columns: number[] = [];
+	for (const [start, end] of segments) {
+		for (const [from, to] of codeRanges(lineText, start, end)) {
+			for (const m of lineText.slice(from, to).matchAll(usage)) {
+				const col = from + (m.index ?? 0);
+				const isKey =
+					/[{,]\s*$/.test(lineText.slice(start, col)) &&
+					/^\s*:(?!:)/.test(lineText.slice(col + name.length, end));
+				if (!isKey) {
+					columns.push(col);
+				}
+			}
+		}
+	}
+	return columns;
+}
+
+/**
+ * Ranges where a :state/:data name or signature prop is declared or used
+ * inside `{...}` expressions, `:if`/`:elif` conditions, `:for` collections
+ * and :on and :js bodies.
+ */
+export function findLocalSymbolRanges(
+	text: string,
+	name: string,
+	parsed: ParseResult = parseLunor(text)
+): Range[] {
+	const { code } = collectLocals(parsed);
+	const lines = text.split(/\r?\n/);
+	const ranges: Range[] = [];
+	const seen = new Set<string>();
+	const add = (line: number, start: number) => {
+		const key = `${line}:${start}`;
+		if (!seen.has(key)) {
+			seen.add(key);
+			ranges.push(Range.create(line, start, line, start + name.length));
+		}
+	};
+
+	lines.forEach((lineText, line) => {
+		if (line === 0) {
+			const prop = new RegExp(`([(,]\\s*)(${name})\\??\\s*:`, "g");
+			for (const m of lineText.matchAll(prop)) {
+				add(line, (m.index ?? 0) + m[1].length);
+			}
+			return;
+		}
+		const decl = new RegExp(`^(\\s*:(?:state|data)\\s+)${name}=`).exec(
+			lineText
+		);
+		if (decl) {
+			add(line, decl[1].length);
+		}
+		const segments = code.get(line) ?? expressionSegments(lineText);
+		for (const col of usageColumns(lineText, segments, name)) {
+			add(line, col);
+		}
+	});
+	return ranges.sort(
+		(a, b) =>
+			a.start.line - b.start.line || a.start.character - b.start.character
+	);
+}
+
+/**
+ * What would be renamed at the given position, if anything.
+ */
+export function renameTargetAt(
+	text: string,
+	line: number,
+	character: number,
+	workspaceRoot: string,
+	parsed: ParseResult = parseLunor(text)
+): RenameTarget | null {
+	const lineText = text.split(/\r?\n/)[line] ?? "";
+	const component = componentNameAt(lineText, line, character);
+	if (component && workspaceRoot) {
+		if (discoverComponentFiles(workspaceRoot)[component]) {
+			const start =
+				line === 0
+					? lineText.indexOf(component)
+					: lineText.search(
+							new RegExp(`(?<=[:{])${component}(?!\\w)`)
+					  );
+			return {
+				kind: "component",
+				name: component,
+				range: Range.create(
+					line,
+					start,
+					line,
+					start + component.length
+				),
+			};
+		}
+	}
+
+	const { names } = collectLocals(parsed);
+	for (const name of names) {
+		const range = findLocalSymbolRanges(text, name, parsed).find(
+			(r) =>
+				r.start.line === line &&
+				character >= r.start.character &&
+				character <= r.end.character
+		);
+		if (range) {
+			return { kind: "local", name, range };
+		}
+	}
+	return null;
+}
+
+/**
+ * Rename a :state/:data name or signature prop within one document.
+ * Renaming a state also renames its `setX` setter.
+ */
+export function renameLocalSymbol(
+	text: string,
+	name: string,
+	newName: string,
+	parsed: ParseResult = parseLunor(text)
+): TextEdit[] {
+	const edits = findLocalSymbolRanges(text, name, parsed).map((range) =>
+		TextEdit.replace(range, newName)
+	);
+	const { states, code } = collectLocals(parsed);
+	if (states.has(name)) {
+		const setter = setterName(name);
+		const lines = text.split(/\r?\n/);
+		lines.forEach((lineText, line) => {
+			const segments = code.get(line) ?? expressionSegments(lineText);
+			for (const col of usageColumns(lineText, segments, setter)) {
+				edits.push(
+					TextEdit.replace(
+						Range.create(line, col, line, col + setter.length),
+						setterName(newName)
+					)
+				);
+			}
+		});
+	}
+	return edits;
+}
+
+/**
+ * Rename a component across the workspace: its signature, every `:Name`
+ * usage and `Route element={Name}`. When the defining file is named after
+ * the component and the client supports it, the file is renamed as well.
+ */
+export function renameComponent(
+	name: string,
+	newName: string,
+	workspaceRoot: string,
+	options: {
+		renameFile: boolean;
+		readText?: (file: string) => string;
+	}
+): WorkspaceEdit {
+	const readText =
+		options.readText ?? ((file: string) => fs.readFileSync(file, "utf8"));
+	const editsByUri = new Map<string, TextEdit[]>();
+	const add = (uri: string, edit: TextEdit) => {
+		editsByUri.set(uri, [...(editsByUri.get(uri) ?? []), edit]);
+	};
+
+	const definition = findComponentDefinition(name, workspaceRoot, readText);
+	if (definition) {
+		add(definition.uri, TextEdit.replace(definition.range, newName));
+	}
+	for (const ref of findComponentReferences(name, workspaceRoot, readText)) {
+		add(ref.uri, TextEdit.replace(ref.range, newName));
+	}
+
+	const definitionFile = definition && URI.parse(definition.uri).fsPath;
+	if (
+		!options.renameFile ||
+		!definitionFile ||
+		path.basename(definitionFile, ".lnr") !== name
+	) {
+		return { changes: Object.fromEntries(editsByUri) };
+	}
+	const newUri = URI.file(
+		path.join(path.dirname(definitionFile), newName + ".lnr")
+	).toString();
+	return {
+		documentChanges: [
+			...Array.from(editsByUri.entries()).map(([uri, edits]) =>
+				TextDocumentEdit.create({ uri, version: null }, edits)
+			),
+			RenameFile.create(definition.uri, newUri),
+		],
+	};
+}
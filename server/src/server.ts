@@ -24,23 +24,43 @@ import {
 	CodeAction,
 	CodeActionKind,
 	DocumentSymbol,
-	SymbolKind,
 	Range,
 	Hover,
+	Location,
+	ResponseError,
+	ErrorCodes,
+	WorkspaceEdit,
+	FileChangeType,
 } from "vscode-languageserver/node";
 import { URI } from "vscode-uri";
 import * as fs from "fs";
 import * as path from "path";
 import * as glob from "fast-glob";
 import { TextDocument } from "vscode-languageserver-textdocument";
-import { generateReactCode, parseLunor } from "./parser/lunorParser";
-import type {
-	AstNode,
-	ForNode,
-	IfNode,
-	StateNode,
-	DataNode,
-} from "./parser/types";
+import {
+	generateReactCode,
+	parseLunor,
+	parseSignature,
+} from "./parser/lunorParser";
+import { createWatchSession, type WatchSession } from "./watcher";
+import { formatDiagnostic } from "./compiler";
+import { typeCheckLunor } from "./typeCheck";
+import {
+	componentNameAt,
+	findComponentDefinition,
+	findComponentReferences,
+} from "./navigation";
+import {
+	isValidIdentifier,
+	renameComponent,
+	renameLocalSymbol,
+	renameTargetAt,
+} from "./rename";
+import { formatLunorEdits } from "./formatter";
+import { generateDocumentSymbols } from "./documentSymbols";
+import { lunorFoldingRanges, lunorSelectionRanges } from "./folding";
+import { forgetDocument, parseDocument } from "./parseCache";
+import { nodePathAt } from "./parser/ast";
 
 let workspaceRoot = ""; // Create a connection for the server, using Node's IPC as a transport.
 // Also include all preview / proposed LSP features.
@@ -51,8 +71,23 @@ const documents = new TextDocuments(TextDocument);
 
 // In‐memory map of component signatures parsed from first line of each Lunor file
 const componentSignatures = new Map<string, SignatureInformation>();
+// Active watch mode session, started with the `lunor/watch` request
+let watchSession: WatchSession | null = null;
+// Type errors of each open document, by URI, kept for the document version
+// and workspace generation they were computed for, since a check builds a
+// TypeScript program and is too slow to repeat on every pull
+const typeErrors = new Map<
+	string,
+	{ version: number; generation: number; items: Diagnostic[] }
+>();
+// bumped whenever any .lnr file, open or on disk, changes
+let workspaceGeneration = 0;
 const hasConfigurationCapability = false;
 const hasWorkspaceFolderCapability = false;
+// whether the client can rename files as part of a workspace edit
+let hasRenameFileCapability = false;
+// whether the client pulls diagnostics again when asked to
+let hasDiagnosticRefreshCapability = false;
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const hasDiagnosticRelatedInformationCapability = false;
 
@@ -75,6 +110,13 @@ connection.onInitialize((params: InitializeParams) => {
 		workspaceRoot = lunorSubdir;
 	}
 
+	hasRenameFileCapability =
+		params.capabilities.workspace?.workspaceEdit?.resourceOperations?.includes(
+			"rename"
+		) ?? false;
+	hasDiagnosticRefreshCapability =
+		params.capabilities.workspace?.diagnostics?.refreshSupport ?? false;
+
 	const result: InitializeResult = {
 		capabilities: {
 			textDocumentSync: TextDocumentSyncKind.Incremental,
@@ -90,9 +132,13 @@ connection.onInitialize((params: InitializeParams) => {
 				interFileDependencies: false,
 				workspaceDiagnostics: false,
 			},
-			renameProvider: true,
+			renameProvider: { prepareProvider: true },
 			documentSymbolProvider: true, // re-enabled
+			foldingRangeProvider: true,
+			selectionRangeProvider: true,
 			workspaceSymbolProvider: true,
+			definitionProvider: true,
+			referencesProvider: true,
 		},
 	};
 	return result;
@@ -101,149 +147,68 @@ connection.onInitialize((params: InitializeParams) => {
 // Helper: parse first line of a doc for “Tag param:type, …” definitions
 function parseComponentDefinition(doc: TextDocument) {
 	const text = doc.getText();
-	const firstLine = text.split(/\r?\n/)[0].trim();
-	const m = /^(\w+)\((.*)\)$/.exec(firstLine);
-	if (!m) {
+	const signature = parseSignature(text.split(/\r?\n/)[0]);
+	if (!signature) {
 		return;
 	}
-	// eslint-disable-next-line @typescript-eslint/no-unused-vars
-	const [_a, tag, paramsRaw] = m;
-	const rawList = paramsRaw
-		.split(",")
-		.map((s) => s.trim())
-		.filter(Boolean);
-	const parameters = rawList.map((spec) => {
-		// matches name?:type or name:type
-		const parts = /^(\w+)(\?)?:(\w+)$/.exec(spec);
-		const label = parts ? `${parts[1]}${parts[2] || ""}:${parts[3]}` : spec;
-		const docString = parts ? `Type: ${parts[3]}` : "";
-		return ParameterInformation.create(label, docString);
+	const parameters = signature.props.map((prop) => {
+		const label = `${prop.name}${
+			prop.optional && prop.defaultValue === undefined ? "?" : ""
+		}: ${prop.type}${
+			prop.defaultValue !== undefined ? ` = ${prop.defaultValue}` : ""
+		}`;
+		return ParameterInformation.create(label, `Type: ${prop.type}`);
 	});
-	const signature: SignatureInformation = {
-		label: `:${tag} ${parameters.map((p) => p.label).join(" ")}`,
-		documentation: `Props for ${tag}`,
+	const signatureInfo: SignatureInformation = {
+		label: `:${signature.name} ${parameters.map((p) => p.label).join(" ")}`,
+		documentation: `Props for ${signature.name}`,
 		parameters,
 	};
-	componentSignatures.set(tag, signature);
+	componentSignatures.set(signature.name, signatureInfo);
 }
 
 // Update definitions when Lunor docs open or change
 documents.onDidOpen((e) => parseComponentDefinition(e.document));
-documents.onDidChangeContent((e) => parseComponentDefinition(e.document));
-
-// Exported helper for testing and reuse: generate document symbols for a given text and URI
-export function generateDocumentSymbols(
-	text: string,
-	uri: string
-): DocumentSymbol[] {
-	// only for Lunor documents
-	if (!uri.toLowerCase().endsWith(".lnr")) {
-		return [];
-	}
-	const lines = text.split(/\r?\n/);
-	if (lines.length === 0) {
-		return [];
-	}
-	const { ast, component } = parseLunor(text);
-	if (!component) {
+documents.onDidChangeContent((e) => {
+	parseComponentDefinition(e.document);
+	// another file's edit can change this file's type errors
+	workspaceGeneration++;
+});
+
+// Provide outline (Symbols) for .lnr files
+connection.onDocumentSymbol((params): DocumentSymbol[] => {
+	const doc = documents.get(params.textDocument.uri);
+	if (!doc) {
 		return [];
 	}
-	const fullRange = Range.create(0, 0, lines.length - 1, 0);
-	const selectRange = Range.create(0, 0, 0, component.name.length);
-	const root = DocumentSymbol.create(
-		component.name,
-		undefined,
-		SymbolKind.Class,
-		fullRange,
-		selectRange,
-		[]
+	return generateDocumentSymbols(
+		doc.getText(),
+		params.textDocument.uri,
+		parseDocument(doc)
 	);
-	function visit(node: AstNode, parent: DocumentSymbol) {
-		if (node.type === "For") {
-			const forNode = node as ForNode;
-			const symbol = DocumentSymbol.create(
-				`for ${forNode.variable} in ${forNode.collection}`,
-				undefined,
-				SymbolKind.Function,
-				Range.create(
-					node.startLine ?? 0,
-					0,
-					node.endLine ?? node.startLine ?? 0,
-					0
-				),
-				Range.create(
-					node.startLine ?? 0,
-					0,
-					node.endLine ?? node.startLine ?? 0,
-					0
-				),
-				[]
-			);
-			parent.children?.push(symbol);
-			return;
-		}
-		if (node.type === "If") {
-			const ifNode = node as IfNode;
-			const symbol = DocumentSymbol.create(
-				`if ${ifNode.condition}`,
-				undefined,
-				SymbolKind.Function,
-				Range.create(
-					node.startLine ?? 0,
-					0,
-					node.endLine ?? node.startLine ?? 0,
-					0
-				),
-				Range.create(
-					node.startLine ?? 0,
-					0,
-					node.endLine ?? node.startLine ?? 0,
-					0
-				),
-				[]
-			);
-			parent.children?.push(symbol);
-			return;
-		}
-		if (node.type === "State" || node.type === "Data") {
-			const stateOrDataNode = node as
-				| { type: "State"; name: string }
-				| { type: "Data"; name: string };
-			const symbol = DocumentSymbol.create(
-				`${node.type} ${stateOrDataNode.name}`,
-				undefined,
-				SymbolKind.Variable,
-				Range.create(
-					node.startLine ?? 0,
-					0,
-					node.endLine ?? node.startLine ?? 0,
-					0
-				),
-				Range.create(
-					node.startLine ?? 0,
-					0,
-					node.endLine ?? node.startLine ?? 0,
-					0
-				),
-				[]
-			);
-			parent.children?.push(symbol);
-			return;
-		}
-		node.children?.forEach((child) => visit(child, parent));
+});
+// Fold multi-line blocks and comment runs
+connection.onFoldingRanges((params) => {
+	const doc = documents.get(params.textDocument.uri);
+	if (!doc) {
+		return [];
 	}
-	ast.forEach((n) => visit(n, root));
-	return [root];
-}
+	return lunorFoldingRanges(doc.getText(), parseDocument(doc));
+});
 
-// Provide outline (Symbols) for .lnr files
-connection.onDocumentSymbol((params): DocumentSymbol[] => {
+// Expand selection from an expression out to the enclosing blocks
+connection.onSelectionRanges((params) => {
 	const doc = documents.get(params.textDocument.uri);
 	if (!doc) {
 		return [];
 	}
-	return generateDocumentSymbols(doc.getText(), params.textDocument.uri);
+	return lunorSelectionRanges(
+		doc.getText(),
+		params.positions,
+		parseDocument(doc)
+	);
 });
+
 // Provide signature help based on parsed definitions
 connection.onSignatureHelp((params: SignatureHelpParams): SignatureHelp => {
 	const doc = documents.get(params.textDocument.uri);
@@ -277,17 +242,6 @@ connection.onSignatureHelp((params: SignatureHelpParams): SignatureHelp => {
 	};
 });
 
-connection.onDidChangeTextDocument(async (change) => {
-	const document = documents.get(change.textDocument.uri);
-	if (!document) {
-		return;
-	}
-
-	const changeEvent = change.contentChanges[0];
-	if (!changeEvent || !("range" in changeEvent)) {
-		return;
-	}
-});
 connection.onInitialized(() => {
 	scanAllComponentDefinitions();
 	if (hasConfigurationCapability) {
@@ -349,8 +303,49 @@ connection.onDidChangeConfiguration((_change) => {
 // Only keep settings for open documents
 documents.onDidClose((e) => {
 	documentSettings.delete(e.document.uri);
+	forgetDocument(e.document.uri);
+	typeErrors.delete(e.document.uri);
 });
 
+// Type errors of a document, reused while neither it nor any other .lnr
+// file has changed
+function typeCheckDocument(
+	document: TextDocument,
+	fsPath: string
+): Diagnostic[] {
+	const cached = typeErrors.get(document.uri);
+	if (
+		cached?.version === document.version &&
+		cached.generation === workspaceGeneration
+	) {
+		return cached.items;
+	}
+	const items = typeCheckLunor(
+		document.getText(),
+		fsPath,
+		workspaceRoot,
+		parseDocument(document),
+		(file) => {
+			const open = documents.get(URI.file(file).toString());
+			return open && { version: open.version, text: open.getText() };
+		}
+	).map(
+		(diag): Diagnostic => ({
+			severity: diag.severity as DiagnosticSeverity,
+			range: diag.range,
+			message: diag.message,
+			source: "lunor-ts",
+			code: diag.code,
+		})
+	);
+	typeErrors.set(document.uri, {
+		version: document.version,
+		generation: workspaceGeneration,
+		items,
+	});
+	return items;
+}
+
 // Replace your diagnostics handler with this:
 connection.languages.diagnostics.on(async (params) => {
 	const document = documents.get(params.textDocument.uri);
@@ -361,7 +356,7 @@ connection.languages.diagnostics.on(async (params) => {
 		} satisfies DocumentDiagnosticReport;
 	}
 
-	const { diagnostics } = parseLunor(document.getText());
+	const { diagnostics } = parseDocument(document);
 
 	// const items = validateDocument(document);
 	const items: Diagnostic[] = diagnostics.map(
@@ -373,6 +368,16 @@ connection.languages.diagnostics.on(async (params) => {
 			code: diag.code, // Include code if available
 		})
 	);
+
+	// type errors of the generated TSX, mapped back onto the Lunor source
+	const uri = URI.parse(params.textDocument.uri);
+	if (workspaceRoot && uri.scheme === "file") {
+		try {
+			items.push(...typeCheckDocument(document, uri.fsPath));
+		} catch (err) {
+			connection.console.error(`Lunor type check failed: ${err}`);
+		}
+	}
 	return {
 		kind: DocumentDiagnosticReportKind.Full,
 		items,
@@ -411,16 +416,78 @@ connection.onRequest("lunor/generateReact", async (params) => {
 	}
 });
 
+// Ask the client to pull diagnostics again, once for a batch of compiles
+let refreshPending = false;
+function refreshDiagnostics(): void {
+	if (!hasDiagnosticRefreshCapability || refreshPending) {
+		return;
+	}
+	refreshPending = true;
+	setImmediate(() => {
+		refreshPending = false;
+		void connection.languages.diagnostics.refresh();
+	});
+}
+
+// Start or stop watch mode; generated files are written to `outDir`
+connection.onRequest(
+	"lunor/watch",
+	(params: { enable: boolean; outDir: string }): boolean => {
+		if (!params.enable) {
+			watchSession = null;
+			return false;
+		}
+		if (!workspaceRoot) {
+			return false;
+		}
+		watchSession = createWatchSession({
+			root: workspaceRoot,
+			outDir: params.outDir,
+			onCompiled: (file, outputFile, diagnostics) => {
+				connection.console.log(`Lunor: ${file} -> ${outputFile}`);
+				// open files show these through the diagnostics pull
+				for (const diag of diagnostics) {
+					connection.console.warn(formatDiagnostic(file, diag));
+				}
+				refreshDiagnostics();
+			},
+			onRemoved: (file, outputFile) => {
+				connection.console.log(
+					`Lunor: ${file} removed, deleted ${outputFile}`
+				);
+			},
+		});
+		try {
+			watchSession.compileAll();
+		} catch (err) {
+			connection.console.error(`Lunor watch: ${err}`);
+		}
+		return true;
+	}
+);
+
 connection.onDidChangeWatchedFiles((ev) => {
+	workspaceGeneration++;
 	for (const change of ev.changes) {
 		const uri = URI.parse(change.uri);
 		if (!uri.fsPath.endsWith(".lnr")) {
 			continue;
 		}
+		if (watchSession) {
+			try {
+				if (change.type === FileChangeType.Deleted) {
+					watchSession.fileRemoved(uri.fsPath);
+				} else {
+					watchSession.fileChanged(uri.fsPath);
+				}
+			} catch (err) {
+				connection.console.error(`Lunor watch: ${err}`);
+			}
+		}
 
 		if (
-			change.type === 1 /* Created */ ||
-			change.type === 2 /* Changed */
+			change.type === FileChangeType.Created ||
+			change.type === FileChangeType.Changed
 		) {
 			try {
 				const text = fs.readFileSync(uri.fsPath, "utf8");
@@ -429,7 +496,7 @@ connection.onDidChangeWatchedFiles((ev) => {
 			} catch {
 				/* ignore */
 			}
-		} else if (change.type === 3 /* Deleted */) {
+		} else if (change.type === FileChangeType.Deleted) {
 			// remove any signature for that file's first‐line tag
 			// easiest: clear the entire map and rescan
 
@@ -479,6 +546,24 @@ connection.onCodeAction((params) => {
 			};
 			actions.push(fix);
 		}
+		const suggestion =
+			diag.code === "UnknownDirective" &&
+			/did you mean (:\w+)\?$/.exec(diag.message);
+		if (suggestion) {
+			actions.push({
+				title: `Change to ${suggestion[1]}`,
+				kind: CodeActionKind.QuickFix,
+				diagnostics: [diag],
+				isPreferred: true,
+				edit: {
+					changes: {
+						[params.textDocument.uri]: [
+							{ range: diag.range, newText: suggestion[1] },
+						],
+					},
+				},
+			});
+		}
 	}
 	return actions;
 });
@@ -522,6 +607,22 @@ connection.onCompletion((textDocumentPosition): CompletionItem[] => {
 				detail: "If statement",
 				data: "if",
 			},
+			{
+				label: ":elif",
+				kind: CompletionItemKind.Function,
+				insertText: "elif condition \n\t$0\n",
+				insertTextFormat: InsertTextFormat.Snippet,
+				detail: "Else-if branch of the preceding :if",
+				data: "elif",
+			},
+			{
+				label: ":else",
+				kind: CompletionItemKind.Function,
+				insertText: "else\n\t$0\n",
+				insertTextFormat: InsertTextFormat.Snippet,
+				detail: "Else branch of the preceding :if",
+				data: "else",
+			},
 			{
 				label: ":for",
 				kind: CompletionItemKind.Function,
@@ -530,6 +631,22 @@ connection.onCompletion((textDocumentPosition): CompletionItem[] => {
 				detail: "For loop",
 				data: "for",
 			},
+			{
+				label: ":empty",
+				kind: CompletionItemKind.Function,
+				insertText: "empty\n\t$0\n",
+				insertTextFormat: InsertTextFormat.Snippet,
+				detail: "Rendered when the enclosing :for collection is empty",
+				data: "empty",
+			},
+			{
+				label: ":on",
+				kind: CompletionItemKind.Event,
+				insertText: "on ${1:click} => $0",
+				insertTextFormat: InsertTextFormat.Snippet,
+				detail: "Event handler of the enclosing element",
+				data: "on",
+			},
 			{
 				label: ":data",
 				kind: CompletionItemKind.Variable,
@@ -554,6 +671,39 @@ connection.onCompletion((textDocumentPosition): CompletionItem[] => {
 				detail: "Fetch data",
 				data: "fetch",
 			},
+			{
+				label: ":action",
+				kind: CompletionItemKind.Function,
+				insertText:
+					'action ${1:save} ${2|POST,PUT,PATCH,DELETE|} "$3"$0',
+				insertTextFormat: InsertTextFormat.Snippet,
+				detail: "Request sent when the generated function is called",
+				data: "action",
+			},
+			{
+				label: ":slot",
+				kind: CompletionItemKind.Field,
+				insertText: "slot$0",
+				insertTextFormat: InsertTextFormat.Snippet,
+				detail: "Renders the children (or a named slot prop) passed by the caller",
+				data: "slot",
+			},
+			{
+				label: ":loading",
+				kind: CompletionItemKind.Function,
+				insertText: "loading\n\t$0\n",
+				insertTextFormat: InsertTextFormat.Snippet,
+				detail: "Rendered while the enclosing :fetch is loading",
+				data: "loading",
+			},
+			{
+				label: ":error",
+				kind: CompletionItemKind.Function,
+				insertText: "error\n\t$0\n",
+				insertTextFormat: InsertTextFormat.Snippet,
+				detail: "Rendered when the enclosing :fetch fails",
+				data: "error",
+			},
 			{
 				label: ":js",
 				kind: CompletionItemKind.Snippet,
@@ -585,72 +735,177 @@ connection.onCompletionResolve((item: CompletionItem): CompletionItem => {
 	return item;
 });
 
+// Ctrl-click on `:Name` jumps to the first line of the file defining Name
+connection.onDefinition((params): Location | null => {
+	const doc = documents.get(params.textDocument.uri);
+	if (!doc || !workspaceRoot) {
+		return null;
+	}
+	const { line, character } = params.position;
+	const lineText = doc.getText(Range.create(line, 0, line + 1, 0));
+	const name = componentNameAt(lineText, line, character);
+	return name ? findComponentDefinition(name, workspaceRoot) : null;
+});
+
+// List every `:Name` usage of a component in the workspace
+connection.onReferences((params): Location[] => {
+	const doc = documents.get(params.textDocument.uri);
+	if (!doc || !workspaceRoot) {
+		return [];
+	}
+	const { line, character } = params.position;
+	const lineText = doc.getText(Range.create(line, 0, line + 1, 0));
+	const name = componentNameAt(lineText, line, character);
+	if (!name) {
+		return [];
+	}
+	// prefer unsaved editor contents over the files on disk
+	const references = findComponentReferences(name, workspaceRoot, (file) => {
+		const open = documents.get(URI.file(file).toString());
+		return open ? open.getText() : fs.readFileSync(file, "utf8");
+	});
+	if (params.context.includeDeclaration) {
+		const definition = findComponentDefinition(name, workspaceRoot);
+		if (definition) {
+			references.unshift(definition);
+		}
+	}
+	return references;
+});
+
+connection.onDocumentFormatting((params) => {
+	const doc = documents.get(params.textDocument.uri);
+	if (!doc) {
+		return [];
+	}
+	return formatLunorEdits(
+		doc.getText(),
+		params.options,
+		workspaceRoot,
+		undefined,
+		parseDocument(doc)
+	);
+});
+
+// Sent by the client's LunorDocumentRangeFormatter
+connection.onDocumentRangeFormatting((params) => {
+	const doc = documents.get(params.textDocument.uri);
+	if (!doc) {
+		return [];
+	}
+	return formatLunorEdits(
+		doc.getText(),
+		params.options,
+		workspaceRoot,
+		params.range,
+		parseDocument(doc)
+	);
+});
+
+connection.onPrepareRename((params) => {
+	const doc = documents.get(params.textDocument.uri);
+	if (!doc) {
+		return null;
+	}
+	const { line, character } = params.position;
+	const target = renameTargetAt(
+		doc.getText(),
+		line,
+		character,
+		workspaceRoot,
+		parseDocument(doc)
+	);
+	return target ? { range: target.range, placeholder: target.name } : null;
+});
+
+// Rename components across the workspace, or :state/:data/props in a file
+connection.onRenameRequest(
+	(params): WorkspaceEdit | ResponseError<void> | null => {
+		const doc = documents.get(params.textDocument.uri);
+		if (!doc) {
+			return null;
+		}
+		const { line, character } = params.position;
+		const target = renameTargetAt(
+			doc.getText(),
+			line,
+			character,
+			workspaceRoot,
+			parseDocument(doc)
+		);
+		if (!target) {
+			return null;
+		}
+		if (!isValidIdentifier(params.newName)) {
+			return new ResponseError(
+				ErrorCodes.InvalidParams,
+				`'${params.newName}' is not a valid name.`
+			);
+		}
+		if (target.kind === "local") {
+			return {
+				changes: {
+					[params.textDocument.uri]: renameLocalSymbol(
+						doc.getText(),
+						target.name,
+						params.newName,
+						parseDocument(doc)
+					),
+				},
+			};
+		}
+		return renameComponent(target.name, params.newName, workspaceRoot, {
+			renameFile: hasRenameFileCapability,
+			readText: (file) => {
+				const open = documents.get(URI.file(file).toString());
+				return open ? open.getText() : fs.readFileSync(file, "utf8");
+			},
+		});
+	}
+);
+
 // Provide hover information: show component and details of the AST node under cursor
 connection.onHover((params): Hover | undefined => {
 	const doc = documents.get(params.textDocument.uri);
 	if (!doc) {
 		return undefined;
 	}
-	const text = doc.getText();
-	const { ast, component } = parseLunor(text);
+	const { ast, component } = parseDocument(doc);
 	if (!component) {
 		return undefined;
 	}
 	// Find node at hover line
 	const line = params.position.line;
-	let target: AstNode | undefined;
-	function findNode(nodes: AstNode[]) {
-		for (const node of nodes) {
-			const start = node.startLine ?? 0;
-			const end = node.endLine ?? start;
-			if (line >= start && line <= end) {
-				target = node;
-				if (node.children) {
-					findNode(node.children);
-				}
-				break;
-			}
-		}
-	}
-	findNode(ast);
-	console.log("Hover target:", target);
+	const target = nodePathAt(ast, line).pop();
 	// Build hover markdown
 	let md = `**Component**: ${component.name}`;
 	if (component.props?.length) {
 		md += `(${component.props
-			.map((p) => `${p.name}:${p.type}`)
+			.map(
+				(p) =>
+					`${p.name}:${p.type}${
+						p.defaultValue !== undefined
+							? ` = ${p.defaultValue}`
+							: ""
+					}`
+			)
 			.join(", ")})`;
 	}
 	if (target && target.type !== "Component") {
 		md += `\n\n---\n`;
 		switch (target.type) {
-			case "State": {
-				const s = target as StateNode;
-				md += `**State**: ${s.name} = ${s.value}`;
+			case "State":
+				md += `**State**: ${target.name} = ${target.value}`;
 				break;
-			}
-			case "Data": {
-				const d = target as DataNode;
-				md += `**Data**: ${d.name} = ${d.value}`;
+			case "Data":
+				md += `**Data**: ${target.name} = ${target.value}`;
 				break;
-			}
-			case "For": {
-				const f = target as ForNode;
-				md += `**For**: ${f.variable} in ${f.collection}`;
+			case "For":
+				md += `**For**: ${target.variable} in ${target.collection}`;
 				break;
-			}
-			case "If": {
-				const i = target as IfNode;
-				md += `**If**: ${i.condition}`;
+			case "If":
+				md += `**If**: ${target.condition}`;
 				break;
-			}
-			case "Function": {
-				// target is known to have a signature
-				const sig = (target as unknown as { signature?: string })
-					.signature;
-				md += `**Function**: ${sig ?? "<unknown signature>"}`;
-				break;
-			}
 			// add other node types as needed
 		}
 	}
@@ -0,0 +1,116 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* eslint-env mocha */
+import { expect } from "chai";
+import { parseLunor } from "../parser/lunorParser";
+import { nodePathAt, transform, visit, type AstNode } from "../parser/ast";
+
+describe("ast", () => {
+	const text = [
+		"Page()",
+		":state count=0",
+		":if count",
+		"  # Some",
+		":else",
+		"  :for item in items",
+		"    - {item}",
+		"    :empty",
+		"      Nothing",
+	].join("\n");
+
+	it("visits nodes in source order with typed callbacks", () => {
+		const { ast } = parseLunor(text);
+		const types: string[] = [];
+		const loops: string[] = [];
+		visit(ast, {
+			enter: (node) => {
+				types.push(node.type);
+			},
+			For: (node) => {
+				loops.push(node.collection);
+			},
+		});
+		expect(types).to.deep.equal([
+			"State",
+			"If",
+			"Markdown",
+			"Else",
+			"For",
+			"Markdown",
+			"Markdown",
+			"Empty",
+			"Markdown",
+		]);
+		expect(loops).to.deep.equal(["items"]);
+	});
+
+	it("skips children when a callback returns false", () => {
+		const { ast } = parseLunor(text);
+		const types: string[] = [];
+		visit(ast, {
+			If: () => false,
+			enter: (node) => {
+				types.push(node.type);
+			},
+		});
+		expect(types).to.deep.equal(["State"]);
+	});
+
+	it("rewrites, drops and expands nodes bottom-up", () => {
+		const { ast } = parseLunor(text);
+		const result = transform(
+			ast,
+			(node): AstNode | AstNode[] | null | void => {
+				if (node.type === "State") {
+					return null;
+				}
+				if (node.type === "Markdown" && node.tag === "h1") {
+					return [node, { type: "Comment", value: "after" }];
+				}
+			}
+		);
+		expect(result.map((n) => n.type)).to.deep.equal(["If"]);
+		const ifNode = result[0];
+		expect(ifNode.type === "If" && ifNode.children[1]).to.deep.equal({
+			type: "Comment",
+			value: "after",
+		});
+	});
+
+	it("finds the nodes containing a line", () => {
+		const { ast } = parseLunor(text);
+		expect(nodePathAt(ast, 2).map((n) => n.type)).to.deep.equal(["If"]);
+		expect(nodePathAt(ast, 1).map((n) => n.type)).to.deep.equal(["State"]);
+		expect(nodePathAt(ast, 20)).to.be.empty;
+	});
+
+	it("finds nodes nested in multi-line blocks", () => {
+		const { ast } = parseLunor(text);
+		expect(nodePathAt(ast, 8).map((n) => n.type)).to.deep.equal([
+			"If",
+			"Else",
+			"For",
+			"Empty",
+			"Markdown",
+		]);
+		const path = nodePathAt(ast, 6);
+		expect(path.map((n) => n.type === "Markdown" && n.tag)).to.deep.equal([
+			false,
+			false,
+			false,
+			"ul",
+			"li",
+		]);
+	});
+
+	it("closes block ranges after their last nested line", () => {
+		const { ast } = parseLunor(text);
+		const ifNode = ast[1];
+		expect([ifNode.startLine, ifNode.endLine]).to.deep.equal([2, 8]);
+		expect(ifNode.endColumn).to.equal("      Nothing".length);
+		const elseNode = ifNode.type === "If" ? ifNode.branches![0] : null;
+		expect([elseNode?.startLine, elseNode?.endLine]).to.deep.equal([4, 8]);
+		const loop = elseNode?.children[0];
+		const list = loop?.type === "For" ? loop.children[0] : null;
+		expect([list?.startLine, list?.endLine]).to.deep.equal([6, 6]);
+	});
+});
@@ -0,0 +1,105 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* eslint-env mocha */
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+	compileLunor,
+	findLunorRoot,
+	formatDiagnostic,
+	outputPathFor,
+} from "../compiler";
+import { parseArgs, run } from "../cli";
+
+describe("compiler", () => {
+	it("maps lunor files to tsx files under the output folder", () => {
+		const root = path.join("/project", "lunor");
+		const file = path.join(root, "pages", "Home.lnr");
+		const out = outputPathFor(file, root, path.join("/project", "src"));
+		expect(out).to.equal(path.join("/project", "src", "pages", "Home.tsx"));
+	});
+
+	it("finds the closest lunor folder for a file", () => {
+		const file = path.join("/project", "lunor", "pages", "Home.lnr");
+		expect(findLunorRoot(file)).to.equal(path.join("/project", "lunor"));
+	});
+
+	it("formats diagnostics as file:line:col", () => {
+		const { diagnostics } = compileLunor("Broken", "/project/lunor");
+		expect(diagnostics).to.have.lengthOf(1);
+		expect(formatDiagnostic("lunor/Broken.lnr", diagnostics[0])).to.equal(
+			"lunor/Broken.lnr:1:1: error: Invalid component signature: Broken [InvalidComponentSignature]"
+		);
+	});
+
+	it("generates a default export for the component", () => {
+		const { code, diagnostics } = compileLunor(
+			"Hello()\n# Hi",
+			"/project/lunor"
+		);
+		expect(diagnostics).to.be.empty;
+		expect(code).to.contain("export default function Hello()");
+		expect(code).to.contain("<h1>Hi</h1>");
+	});
+
+	it("parses command line options", () => {
+		const options = parseArgs(["--check", "-o", "out", "lunor/Home.lnr"]);
+		expect(options.check).to.equal(true);
+		expect(options.stdout).to.equal(false);
+		expect(options.outDir).to.equal("out");
+		expect(options.inputs).to.deep.equal(["lunor/Home.lnr"]);
+	});
+
+	describe("lunorc", () => {
+		let project: string;
+
+		beforeEach(() => {
+			project = fs.mkdtempSync(path.join(os.tmpdir(), "lunorc-"));
+			const pages = path.join(project, "lunor", "pages");
+			fs.mkdirSync(pages, { recursive: true });
+			fs.writeFileSync(path.join(pages, "Home.lnr"), "Home()\n# Home");
+			fs.writeFileSync(path.join(pages, "About.lnr"), "About()\n# About");
+		});
+
+		afterEach(() => {
+			fs.rmSync(project, { recursive: true, force: true });
+		});
+
+		// run the CLI and return what it printed
+		const lunorc = (argv: string[]) => {
+			let output = "";
+			const write = process.stdout.write;
+			process.stdout.write = (chunk: string | Uint8Array) => {
+				output += chunk;
+				return true;
+			};
+			try {
+				expect(run(argv)).to.equal(0);
+			} finally {
+				process.stdout.write = write;
+			}
+			return output;
+		};
+
+		it("compiles a directory under the enclosing lunor folder", () => {
+			lunorc([path.join(project, "lunor", "pages")]);
+			expect(
+				fs.existsSync(path.join(project, "src", "pages", "Home.tsx"))
+			).to.equal(true);
+		});
+
+		it("prints a banner before each file with --stdout", () => {
+			const output = lunorc([
+				"--stdout",
+				path.join(project, "lunor", "pages"),
+			]);
+			const banners = output
+				.split("\n")
+				.filter((line) => /^\/\/ .*\.lnr$/.test(line));
+			expect(banners).to.have.lengthOf(2);
+			expect(banners[0]).to.match(/About\.lnr$/);
+			expect(output).to.contain("export default function Home()");
+		});
+	});
+});
@@ -0,0 +1,82 @@
+/* eslint-env mocha */
+import { expect } from "chai";
+import type { SelectionRange } from "vscode-languageserver/node";
+import { lunorFoldingRanges, lunorSelectionRanges } from "../folding";
+
+describe("Folding and selection ranges", () => {
+	const text = [
+		"Page()",
+		"// first",
+		"// second",
+		':Card title="A" onSelect={() => select(id)}',
+		"  :if open",
+		"    # Open",
+		"    - one",
+		"      two",
+		"    - three",
+		"  :else",
+		"    Closed",
+		":js",
+		"  const x = 1;",
+		"  const y = 2;",
+	].join("\n");
+
+	it("folds blocks, lists and comment runs", () => {
+		const ranges = lunorFoldingRanges(text).map((r) => [
+			r.startLine,
+			r.endLine,
+			r.kind,
+		]);
+		expect(ranges).to.deep.equal([
+			[1, 2, "comment"],
+			[3, 10, undefined],
+			[4, 8, undefined],
+			[6, 8, undefined],
+			[9, 10, undefined],
+			[11, 13, undefined],
+		]);
+	});
+
+	it("expands from an expression to the enclosing blocks", () => {
+		const [selection] = lunorSelectionRanges(text, [
+			{ line: 3, character: 32 },
+		]);
+		const chain: string[] = [];
+		for (
+			let range: SelectionRange | undefined = selection;
+			range;
+			range = range.parent
+		) {
+			const { start, end } = range.range;
+			chain.push(
+				`${start.line}:${start.character}-${end.line}:${end.character}`
+			);
+		}
+		expect(chain).to.deep.equal([
+			"3:25-3:43", // {() => select(id)}
+			"3:16-3:43", // onSelect={...}
+			"3:0-3:43", // the component line
+			"3:0-10:10", // the :Card block
+		]);
+	});
+
+	it("expands from a nested line to its parent blocks", () => {
+		const [selection] = lunorSelectionRanges(text, [
+			{ line: 10, character: 6 },
+		]);
+		const lines: number[][] = [];
+		for (
+			let range: SelectionRange | undefined = selection;
+			range;
+			range = range.parent
+		) {
+			lines.push([range.range.start.line, range.range.end.line]);
+		}
+		expect(lines).to.deep.equal([
+			[10, 10],
+			[9, 10],
+			[4, 10],
+			[3, 10],
+		]);
+	});
+});
@@ -0,0 +1,123 @@
+/* eslint-env mocha */
+import { expect } from "chai";
+import * as os from "os";
+import * as path from "path";
+import { Range } from "vscode-languageserver/node";
+import { formatLunor, formatLunorEdits } from "../formatter";
+
+describe("formatter", () => {
+	const root = path.join(os.tmpdir(), "lunor-format-no-components");
+	const options = { tabSize: 2, insertSpaces: true };
+
+	it("normalises indentation, props and the signature", () => {
+		const text = [
+			"Page(title:string,count?:  number )",
+			":for item in items",
+			"      :Card   title='x'  size=3 active=true",
+			"          # {item.name}",
+			":if count",
+			"    :Link to=home",
+		].join("\n");
+		expect(formatLunor(text, options, root)).to.equal(
+			[
+				"Page(title: string, count?: number)",
+				":for item in items",
+				"  :Card title='x' size=3 active=true",
+				"    # {item.name}",
+				":if count",
+				'  :Link to="home"',
+			].join("\n")
+		);
+	});
+
+	it("keeps relative indentation inside :js blocks", () => {
+		const text = [
+			"Page()",
+			":js",
+			"      function f() {",
+			"        return 1;",
+			"      }",
+		].join("\n");
+		expect(
+			formatLunor(text, { tabSize: 4, insertSpaces: true }, root)
+		).to.equal(
+			[
+				"Page()",
+				":js",
+				"    function f() {",
+				"      return 1;",
+				"    }",
+			].join("\n")
+		);
+	});
+
+	it("keeps Route elements as component references", () => {
+		const text = 'App()\n:Routes\n   :Route  path="/" element={Home}';
+		expect(formatLunor(text, options, root)).to.equal(
+			'App()\n:Routes\n  :Route path="/" element={Home}'
+		);
+	});
+
+	it("only edits lines inside the requested range", () => {
+		const text = "Page()\n:if a\n      # A\n:if b\n      # B";
+		const edits = formatLunorEdits(
+			text,
+			options,
+			root,
+			Range.create(3, 0, 4, 0)
+		);
+		expect(edits).to.have.lengthOf(1);
+		expect(edits[0].range.start.line).to.equal(4);
+		expect(edits[0].newText).to.equal("  # B");
+	});
+
+	it("indents continuation lines one level below their component", () => {
+		const text = [
+			"Page()",
+			":if a",
+			"      :Card title='x'",
+			"          + size=3",
+			"          | onSelect={(id) => {",
+			"              select(id);",
+			"            }}",
+			"      # A",
+		].join("\n");
+		expect(formatLunor(text, options, root)).to.equal(
+			[
+				"Page()",
+				":if a",
+				"  :Card title='x'",
+				"    + size=3",
+				"    | onSelect={(id) => {",
+				"        select(id);",
+				"      }}",
+				"  # A",
+			].join("\n")
+		);
+	});
+
+	it("indents nested lists and moves code fences as a whole", () => {
+		const text = [
+			"Page()",
+			":if a",
+			"    - a",
+			"        - b",
+			"    ```",
+			"    x = 1",
+			"      y",
+			"    ```",
+		].join("\n");
+		expect(formatLunor(text, options, root)).to.equal(
+			[
+				"Page()",
+				":if a",
+				"  - a",
+				"    - b",
+				"  ```",
+				"  x = 1",
+				"    y",
+				"  ```",
+			].join("\n")
+		);
+	});
+});
@@ -0,0 +1,34 @@
+/* eslint-env mocha */
+import { expect } from "chai";
+import { parseInline, renderInline } from "../parser/inline";
+
+describe("inline markdown", () => {
+	it("keeps every expression of a line", () => {
+		const nodes = parseInline("Hello {user.name}, you have {count} items");
+		expect(nodes.map((n) => n.type)).to.deep.equal([
+			"Text",
+			"Text",
+			"Text",
+			"Text",
+			"Text",
+		]);
+		expect(renderInline(nodes)).to.equal(
+			"Hello {user.name}, you have {count} items"
+		);
+	});
+
+	it("renders bold, italic, code, links and images", () => {
+		const nodes = parseInline(
+			"A **bold {x}** and *soft* `a{b}` [docs](/docs) ![logo]({src})"
+		);
+		expect(renderInline(nodes)).to.equal(
+			'A <strong>bold {x}</strong> and <em>soft</em> <code>{"a{b}"}</code> <a href="/docs">docs</a> <img src={src} alt="logo" />'
+		);
+	});
+
+	it("keeps unmatched markers as text", () => {
+		expect(renderInline(parseInline("2 * 3 = [six"))).to.equal(
+			"2 * 3 = [six"
+		);
+	});
+});
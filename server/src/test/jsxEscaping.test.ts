@@ -0,0 +1,95 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* eslint-env mocha */
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { generateReactCode, parseLunor } from "../parser/lunorParser";
+import { jsxAttribute, jsxText } from "../parser/jsx";
+import { typeCheckLunor } from "../typeCheck";
+
+// Inputs whose literal text or attribute values are not valid as-is in JSX
+const tricky: Record<string, string[]> = {
+	"angle brackets and lone braces": [
+		"Price < 10 > 5 and { alone",
+		"} too",
+		"# 1 < 2 is {count}",
+		"- a > b",
+	],
+	"quotes and ampersands": [
+		"Use \"quotes\" & 'apostrophes' &amp; entities",
+		':div title="say \\"hi\\"" data-x="a & b"',
+		"  text {count} }",
+	],
+	"html-like text": ["Write <b>tags</b> or </div> as text"],
+	"comments that close early": ["// ends */ early", "after"],
+	"links and images": ['[x](/a?b="c") and ![a "b" <c>](/img.png)'],
+	"table cells": [
+		"| a < b | {count} |",
+		"| --- | --- |",
+		"| x } y | `{z}` |",
+	],
+	"code fences": ["```", "</pre> {not code} `x`", "```"],
+};
+
+describe("JSX escaping", () => {
+	const generate = (lines: string[]) => {
+		const { ast, component, imports } = parseLunor(
+			["Page()", ":data count=1", ...lines].join("\n")
+		);
+		return generateReactCode(ast, component, "/nonexistent", imports);
+	};
+
+	it("escapes literal text and attribute values", () => {
+		expect(jsxText("a < b {c}")).to.equal('a {"<"} b {"{"}c{"}"}');
+		expect(jsxAttribute("plain")).to.equal('"plain"');
+		expect(jsxAttribute('say "hi"')).to.equal('{"say \\"hi\\""}');
+
+		const code = generate([
+			"Price < 10 and { alone",
+			':div title="say \\"hi\\""',
+			"// ends */ early",
+		]);
+		expect(code).to.contain('<p>Price {"<"} 10 and {"{"} alone</p>');
+		expect(code).to.contain('<div title={"say \\"hi\\""}/>');
+		expect(code).to.contain("{/* ends *\\/ early */}");
+	});
+
+	it("keeps expressions as live code", () => {
+		const code = generate(["# {count} < {count + 1}"]);
+		expect(code).to.contain('<h1>{count} {"<"} {count + 1}</h1>');
+	});
+
+	describe("generated code compiles with tsc", function () {
+		// the first program loads the TypeScript lib files
+		this.timeout(20000);
+		let project: string;
+		let root: string;
+
+		before(() => {
+			project = fs.mkdtempSync(path.join(os.tmpdir(), "lunor-jsx-"));
+			root = path.join(project, "lunor");
+			fs.mkdirSync(root);
+			fs.writeFileSync(
+				path.join(project, "tsconfig.json"),
+				JSON.stringify({ compilerOptions: { jsx: "preserve" } })
+			);
+		});
+
+		after(() => {
+			fs.rmSync(project, { recursive: true, force: true });
+		});
+
+		for (const [name, lines] of Object.entries(tricky)) {
+			it(name, () => {
+				const text = ["Page()", ":data count=1", ...lines].join("\n");
+				const diagnostics = typeCheckLunor(
+					text,
+					path.join(root, "Page.lnr"),
+					root
+				);
+				expect(diagnostics.map((d) => d.message)).to.be.empty;
+			});
+		}
+	});
+});
@@ -2,7 +2,22 @@
 /* eslint-env mocha */
 
 import { expect } from "chai";
-import { parseLunor } from "../parser/lunorParser";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DiagnosticSeverity } from "vscode-languageserver";
+import {
+	generateReactCode,
+	parseLunor,
+	parseSignature,
+} from "../parser/lunorParser";
+import type {
+	ActionNode,
+	ComponentNode,
+	FetchNode,
+	ForNode,
+	IfNode,
+} from "../parser/ast";
 
 describe("lunorParser", () => {
 	it("should error on empty file", () => {
@@ -22,4 +37,746 @@ describe("lunorParser", () => {
 		expect(component?.props).to.be.an("array").that.is.empty;
 		expect(ast).to.be.an("array").that.is.empty;
 	});
+
+	describe("component props", () => {
+		it("reads single-quoted values as strings", () => {
+			const { ast, component } = parseLunor(
+				["Page()", ":Card title='Hello world' note=don't size=3"].join(
+					"\n"
+				)
+			);
+			expect((ast[0] as ComponentNode).props).to.deep.equal({
+				title: "Hello world",
+				note: "don't",
+				size: 3,
+			});
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain('<Card title="Hello world"');
+		});
+
+		it("keeps single quotes inside double-quoted values", () => {
+			const { ast } = parseLunor(
+				["Page()", `:Card title="it's here" alt='say "hi"'`].join("\n")
+			);
+			expect((ast[0] as ComponentNode).props).to.deep.equal({
+				title: "it's here",
+				alt: 'say "hi"',
+			});
+		});
+	});
+
+	describe(":elif and :else", () => {
+		it("attaches branches to the preceding :if", () => {
+			const text = [
+				"Recipes()",
+				":if recipes.length > 1",
+				"  # Many",
+				":elif recipes.length === 1",
+				"  # One",
+				":else",
+				"  # No recipes",
+			].join("\n");
+			const { ast, diagnostics, component } = parseLunor(text);
+			expect(diagnostics).to.be.empty;
+			expect(ast).to.have.lengthOf(1);
+			const ifNode = ast[0] as IfNode;
+			expect(ifNode.branches?.map((b) => b.type)).to.deep.equal([
+				"ElseIf",
+				"Else",
+			]);
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain("{recipes.length > 1 ? (");
+			expect(code).to.contain(") : recipes.length === 1 ? (");
+			expect(code).to.contain("<h1>No recipes</h1>");
+			expect(code).to.not.contain(": null}");
+		});
+
+		it("ends the chain with null without :else", () => {
+			const text = ["Page()", ":if a", "  # A", ":elif b", "  # B"].join(
+				"\n"
+			);
+			const { ast, component } = parseLunor(text);
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain(" : null}");
+		});
+
+		it("reports a dangling :else", () => {
+			const text = ["Page()", "# Title", ":else", "  # Nothing"].join(
+				"\n"
+			);
+			const { diagnostics } = parseLunor(text);
+			expect(diagnostics.map((d) => d.code)).to.deep.equal([
+				"DanglingElse",
+			]);
+		});
+
+		it("reports an :else that is not last", () => {
+			const text = [
+				"Page()",
+				":if a",
+				"  # A",
+				":else",
+				"  # B",
+				":elif c",
+				"  # C",
+			].join("\n");
+			const { diagnostics } = parseLunor(text);
+			expect(diagnostics.map((d) => d.code)).to.deep.equal([
+				"ElseNotLast",
+			]);
+			expect(diagnostics[0].range.start.line).to.equal(5);
+		});
+	});
+
+	describe(":for", () => {
+		it("parses an index, an expression collection and a key", () => {
+			const text = [
+				"Recipes()",
+				":for (recipe, i) in {recipes.filter((r) => r.published)} key={recipe.id}",
+				"  :RecipeCard title={recipe.title}",
+			].join("\n");
+			const { ast, diagnostics, component } = parseLunor(text);
+			expect(diagnostics).to.be.empty;
+			const forNode = ast[0] as ForNode;
+			expect(forNode.variable).to.equal("recipe");
+			expect(forNode.index).to.equal("i");
+			expect(forNode.collection).to.equal(
+				"recipes.filter((r) => r.published)"
+			);
+			expect(forNode.key).to.equal("recipe.id");
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain(
+				"(recipes.filter((r) => r.published)).map((recipe, i) => ("
+			);
+			expect(code).to.contain("<RecipeCard key={recipe.id}");
+		});
+
+		it("wraps several children in a keyed Fragment", () => {
+			const text = [
+				"List()",
+				":for item in items",
+				"  # {item.name}",
+				"  - {item.description}",
+			].join("\n");
+			const { ast, component } = parseLunor(text);
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain(".map((item, __i) => (");
+			expect(code).to.contain("<Fragment key={__i}>");
+			expect(code).to.contain("import { Fragment } from 'react';");
+		});
+
+		it("renders the :empty block for an empty collection", () => {
+			const text = [
+				"List()",
+				":for item in items",
+				"  # {item.name}",
+				"  :empty",
+				"    # Nothing here",
+			].join("\n");
+			const { ast, diagnostics, component } = parseLunor(text);
+			expect(diagnostics).to.be.empty;
+			const forNode = ast[0] as ForNode;
+			expect(forNode.children).to.have.lengthOf(1);
+			expect(forNode.empty?.children).to.have.lengthOf(1);
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain(
+				"{((__items) => __items.length === 0 ? ("
+			);
+			expect(code).to.contain(") : __items.map((item, __i) => (");
+			expect(code).to.contain("))(items)}");
+			expect(code).to.contain("<h1>Nothing here</h1>");
+		});
+
+		it("keeps a key the item element already has", () => {
+			const text = [
+				"List()",
+				":for item in items",
+				"  :Row key={item.id} item={item}",
+			].join("\n");
+			const { ast, component } = parseLunor(text);
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain("<Row key={item.id} item={item}");
+			expect(code.match(/key=/g)).to.have.lengthOf(1);
+		});
+
+		it("reports invalid loops and stray :empty blocks", () => {
+			const text = [
+				"List()",
+				":for item in items extra",
+				"  # {item}",
+				":empty",
+			].join("\n");
+			const { diagnostics } = parseLunor(text);
+			expect(diagnostics.map((d) => d.code)).to.deep.equal([
+				"InvalidFor",
+				"EmptyOutsideFor",
+			]);
+		});
+	});
+
+	describe(":on", () => {
+		it("turns handlers into onX props", () => {
+			const text = [
+				"Counter()",
+				":state count=0",
+				"# {count}",
+				"  :on click => setCount(count + 1)",
+				":Button",
+				"  :on submit(e) =>",
+				"    e.preventDefault();",
+				"    setCount(0);",
+			].join("\n");
+			const { ast, diagnostics, component } = parseLunor(text);
+			expect(diagnostics).to.be.empty;
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain(
+				"<h1 onClick={() => setCount(count + 1)}>{count}</h1>"
+			);
+			expect(code).to.contain("<Button onSubmit={(e) => {");
+			expect(code).to.contain("e.preventDefault();\n");
+		});
+
+		it("reports unknown events and handlers without an element", () => {
+			const text = [
+				"Page()",
+				":Button",
+				"  :on clik => go()",
+				":on click => go()",
+			].join("\n");
+			const { diagnostics } = parseLunor(text);
+			expect(diagnostics.map((d) => d.code)).to.deep.equal([
+				"InvalidEvent",
+				"OrphanEvent",
+			]);
+			expect(diagnostics[0].range.start).to.deep.equal({
+				line: 2,
+				character: 6,
+			});
+		});
+	});
+
+	describe("bind", () => {
+		it("expands to value/checked and onChange", () => {
+			const text = [
+				"Form()",
+				':state title=""',
+				":state done=false",
+				":input bind={title}",
+				':input type="checkbox" bind={done}',
+			].join("\n");
+			const { ast, diagnostics, component } = parseLunor(text);
+			expect(diagnostics).to.be.empty;
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain(
+				"<input value={title} onChange={(e) => setTitle(e.target.value)}/>"
+			);
+			expect(code).to.contain(
+				'<input type="checkbox" checked={done} onChange={(e) => setDone(e.target.checked)}/>'
+			);
+		});
+
+		it("reports unknown states and unsupported elements", () => {
+			const text = [
+				"Form()",
+				":data title=1",
+				":textarea bind={title}",
+				":Card bind={title}",
+			].join("\n");
+			const { diagnostics } = parseLunor(text);
+			expect(diagnostics.map((d) => d.code)).to.deep.equal([
+				"UnknownBindState",
+				"UnsupportedBind",
+			]);
+			expect(diagnostics[0].range.start.character).to.equal(10);
+		});
+	});
+
+	describe(":fetch", () => {
+		const text = [
+			"Recipes(page: number)",
+			':state query=""',
+			':fetch recipes(Recipe[]) from "/api/recipes?page=${page}" POST body={{ query }} headers={{ "X-Key": key }}',
+			"  :loading",
+			"    # Loading",
+			"  :error",
+			"    # {recipesError.message}",
+		].join("\n");
+
+		it("parses body, headers, dependencies and state blocks", () => {
+			const { ast, diagnostics } = parseLunor(text);
+			expect(diagnostics).to.be.empty;
+			const fetchNode = ast[1] as FetchNode;
+			expect(fetchNode.method).to.equal("POST");
+			expect(fetchNode.body).to.equal("{ query }");
+			expect(fetchNode.headersExpression).to.equal('{ "X-Key": key }');
+			expect(fetchNode.dependencies).to.deep.equal(["page", "query"]);
+			expect(fetchNode.loading?.children).to.have.lengthOf(1);
+			expect(fetchNode.error?.children).to.have.lengthOf(1);
+		});
+
+		it("generates loading, error and refetch", () => {
+			const { ast, component } = parseLunor(text);
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain(
+				"const [recipesLoading, setRecipesLoading] = useState(true);"
+			);
+			expect(code).to.contain(
+				"const refetchRecipes = useCallback(() => {"
+			);
+			expect(code).to.contain("body: JSON.stringify({ query })");
+			expect(code).to.contain("}, [page, query]);");
+			expect(code).to.contain("{recipesLoading && (");
+			expect(code).to.contain("{recipesError && (");
+		});
+
+		it("reports unknown options and misplaced blocks", () => {
+			const { diagnostics } = parseLunor(
+				["Page()", ':fetch items from "/api" FOO', ":loading"].join(
+					"\n"
+				)
+			);
+			expect(diagnostics.map((d) => d.code)).to.deep.equal([
+				"InvalidFetch",
+				"FetchStateOutsideFetch",
+			]);
+		});
+	});
+
+	describe(":fetch auth", () => {
+		const text = ["Page()", ':fetch me from "/api/me" auth'].join("\n");
+		let root: string;
+
+		beforeEach(() => {
+			root = fs.mkdtempSync(path.join(os.tmpdir(), "lunor-auth-"));
+			fs.mkdirSync(path.join(root, "lunor"));
+		});
+
+		afterEach(() => {
+			fs.rmSync(root, { recursive: true, force: true });
+		});
+
+		const generate = (config?: object, source = text) => {
+			if (config) {
+				fs.writeFileSync(
+					path.join(root, "lunor.config.json"),
+					JSON.stringify(config)
+				);
+			}
+			const { ast, component } = parseLunor(source);
+			return generateReactCode(ast, component, path.join(root, "lunor"));
+		};
+
+		it("reads the token from localStorage by default", () => {
+			expect(generate()).to.contain(
+				"\"Authorization\": `Bearer ${localStorage.getItem('token')}`"
+			);
+		});
+
+		it("imports and calls a configured getter", () => {
+			const code = generate({
+				auth: { getter: "getToken", from: "@/auth" },
+			});
+			expect(code).to.contain("import { getToken } from '@/auth';");
+			expect(code).to.contain('"Authorization": `Bearer ${getToken()}`');
+		});
+
+		it("imports the configured getter for :action auth", () => {
+			const code = generate(
+				{ auth: { getter: "getToken", from: "@/auth" } },
+				["Page()", ':action save POST "/x" auth'].join("\n")
+			);
+			expect(code).to.contain("import { getToken } from '@/auth';");
+			expect(code).to.contain('"Authorization": `Bearer ${getToken()}`');
+		});
+
+		it("calls hooks in the component body and uses the header template", () => {
+			const code = generate({
+				auth: {
+					getter: "useSession",
+					from: "./session",
+					header: "X-Session",
+					template: "${token}",
+				},
+			});
+			expect(code).to.contain("const authToken = useSession();");
+			expect(code).to.contain('"X-Session": `${authToken}`');
+			expect(code).to.contain("}, [authToken]);");
+		});
+	});
+
+	describe(":action", () => {
+		it("generates an async function with pending and error state", () => {
+			const text = [
+				"Recipes()",
+				":state form={}",
+				':fetch recipes from "/api/recipes"',
+				':action saveRecipe POST "/api/recipes" body={form} refetch=recipes',
+				':action deleteRecipe(id: number) DELETE "/api/recipes/${id}"',
+			].join("\n");
+			const { ast, diagnostics, component } = parseLunor(text);
+			expect(diagnostics).to.be.empty;
+			const remove = ast[3] as ActionNode;
+			expect(remove.method).to.equal("DELETE");
+			expect(remove.parameters).to.equal("id: number");
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain(
+				"const [saveRecipePending, setSaveRecipePending] = useState(false);"
+			);
+			expect(code).to.contain("const saveRecipe = async () => {");
+			expect(code).to.contain("refetchRecipes();");
+			expect(code).to.contain(
+				"const deleteRecipe = async (id: number) => {"
+			);
+		});
+
+		it("reports refetch of an unknown :fetch", () => {
+			const { diagnostics } = parseLunor(
+				["Page()", ':action save "/api" refetch=items'].join("\n")
+			);
+			expect(diagnostics.map((d) => d.code)).to.deep.equal([
+				"UnknownRefetch",
+			]);
+			expect(diagnostics[0].range.start.character).to.equal(20);
+		});
+	});
+
+	describe(":slot", () => {
+		it("renders children and named slots and adds them to Props", () => {
+			const text = [
+				"Card(title: string)",
+				":div",
+				"  :slot header",
+				"    # {title}",
+				"  :slot",
+			].join("\n");
+			const { ast, diagnostics, component } = parseLunor(text);
+			expect(diagnostics).to.be.empty;
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain("import type * as React from 'react';");
+			expect(code).to.contain("header?: React.ReactNode;");
+			expect(code).to.contain("children?: React.ReactNode;");
+			expect(code).to.contain(
+				"export default function Card({title,header,children}: CardProps)"
+			);
+			expect(code).to.contain("{header ?? (");
+			expect(code).to.contain("      {children}");
+		});
+
+		it("uses React from the file's own import", () => {
+			const text = [
+				"Card()",
+				":js",
+				"  import React from 'react';",
+				":slot",
+			].join("\n");
+			const { ast, component, imports } = parseLunor(text);
+			const code = generateReactCode(
+				ast,
+				component,
+				"/nonexistent",
+				imports
+			);
+			expect(code).to.contain("import React from 'react';");
+			expect(code).not.to.contain("import type * as React");
+			expect(code).to.contain("children?: React.ReactNode;");
+		});
+
+		it("gives components without a signature a Props type", () => {
+			const { ast, component } = parseLunor("Layout()\n:slot");
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain(
+				"export default function Layout({children}: LayoutProps)"
+			);
+		});
+	});
+
+	describe("signature", () => {
+		it("parses defaults and richer types", () => {
+			const signature = parseSignature(
+				'Card(items: Recipe[], size: number = 3, onSelect?: (id: number) => void, map: Map<string, number>, tone: "a" | "b" = "a")'
+			);
+			expect(signature?.invalid).to.be.empty;
+			expect(signature?.props).to.deep.equal([
+				{ name: "items", type: "Recipe[]", optional: false },
+				{
+					name: "size",
+					type: "number",
+					optional: true,
+					defaultValue: "3",
+				},
+				{
+					name: "onSelect",
+					type: "(id: number) => void",
+					optional: true,
+				},
+				{ name: "map", type: "Map<string, number>", optional: false },
+				{
+					name: "tone",
+					type: '"a" | "b"',
+					optional: true,
+					defaultValue: '"a"',
+				},
+			]);
+		});
+
+		it("reports invalid props at their column", () => {
+			const { diagnostics } = parseLunor("Card(title: string, 3)");
+			expect(diagnostics[0].code).to.equal("InvalidPropDefinition");
+			expect(diagnostics[0].range.start.character).to.equal(20);
+		});
+
+		it("destructures props with their defaults", () => {
+			const { ast, component } = parseLunor(
+				"Card(title: string, size: number = 3)\n# {title}"
+			);
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain("size?: number;");
+			expect(code).to.contain(
+				"export default function Card({title,size = 3}: CardProps)"
+			);
+		});
+	});
+
+	describe("continuation lines", () => {
+		const text = [
+			"Page()",
+			':Card title="A"',
+			"  + size=3",
+			"  | onSelect={(id) => {",
+			"      select(id);",
+			"    }}",
+			"  # Child",
+			":Card",
+			"  + broken",
+		].join("\n");
+
+		it("joins props and keeps nested lines as children", () => {
+			const { ast, component } = parseLunor(text);
+			const card = ast[0] as ComponentNode;
+			expect(Object.keys(card.props)).to.deep.equal([
+				"title",
+				"size",
+				"onSelect",
+			]);
+			expect(card.children).to.have.lengthOf(1);
+			expect(card.endLine).to.equal(6);
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain(
+				'<Card title="A" size={3} onSelect={(id) => { select(id); }}>'
+			);
+		});
+
+		it("reports diagnostics on the continuation line", () => {
+			const { diagnostics } = parseLunor(text);
+			expect(diagnostics).to.have.lengthOf(1);
+			expect(diagnostics[0].range.start).to.deep.equal({
+				line: 8,
+				character: 4,
+			});
+		});
+
+		it("keeps indented table rows out of the props", () => {
+			const { ast } = parseLunor(
+				["Page()", ":div", "  | key=1 | x |", "  | a=2 | y |"].join("\n")
+			);
+			const div = ast[0] as ComponentNode;
+			expect(div.props).to.deep.equal({});
+			expect(div.children).to.have.lengthOf(1);
+			expect(div.children[0]).to.include({ type: "Markdown", tag: "table" });
+		});
+	});
+
+	describe("inline markdown", () => {
+		it("renders mixed content in paragraphs, list items and headings", () => {
+			const text = [
+				"Page()",
+				"# Hi {user.name}, you have {count} items",
+				"- **{a}** and *{b}*",
+				"See [the docs](/docs) for `npm run build`",
+				"**Just bold**",
+			].join("\n");
+			const { ast, component } = parseLunor(text);
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain(
+				"<h1>Hi {user.name}, you have {count} items</h1>"
+			);
+			expect(code).to.contain(
+				"<li><strong>{a}</strong> and <em>{b}</em></li>"
+			);
+			expect(code).to.contain(
+				'<p>See <a href="/docs">the docs</a> for <code>{"npm run build"}</code></p>'
+			);
+			expect(code).to.contain("<strong>Just bold</strong>");
+		});
+	});
+
+	describe("block markdown", () => {
+		const generate = (lines: string[]) => {
+			const { ast, component, diagnostics } = parseLunor(
+				["Page()", ...lines].join("\n")
+			);
+			return {
+				code: generateReactCode(ast, component, "/nonexistent"),
+				diagnostics,
+			};
+		};
+
+		it("groups list items and nests indented ones", () => {
+			const { code } = generate(["- a", "- b", "  - c", "- d"]);
+			expect(code.match(/<ul>/g)).to.have.length(2);
+			expect(code).to.match(
+				/<li>b\n\s*<ul>\n\s*<li>c<\/li>\n\s*<\/ul>\n\s*<\/li>/
+			);
+			expect(code).to.contain("<li>d</li>");
+		});
+
+		it("renders ordered lists with their first number", () => {
+			const { code } = generate(["3. three", "4. four"]);
+			expect(code).to.match(
+				/<ol start=\{3\}>\n\s*<li>three<\/li>\n\s*<li>four<\/li>/
+			);
+		});
+
+		it("joins consecutive quote lines", () => {
+			const { code } = generate(["> one *a*", "> two", "", "> three"]);
+			expect(code).to.match(
+				/<blockquote>\n\s*<p>one <em>a<\/em><\/p>\n\s*<p>two<\/p>\n\s*<\/blockquote>/
+			);
+			expect(code.match(/<blockquote>/g)).to.have.length(2);
+			expect(generate(["---"]).code).to.contain("<hr />");
+		});
+
+		it("keeps fenced code verbatim", () => {
+			const { code, diagnostics } = generate([
+				"```js",
+				'const a = {b: "<c>"};',
+				"",
+				"  return a;",
+				"```",
+				"after",
+			]);
+			expect(code).to.contain(
+				'<pre><code className="language-js">{"const a = {b: \\"<c>\\"};\\n\\n  return a;"}</code></pre>'
+			);
+			expect(code).to.contain("<p>after</p>");
+			expect(diagnostics).to.be.empty;
+			expect(generate(["```", "a"]).diagnostics[0].code).to.equal(
+				"UnclosedCodeFence"
+			);
+		});
+
+		it("renders tables with a header and aligned columns", () => {
+			const { code } = generate([
+				"| Name | Price |",
+				"| --- | ---: |",
+				"| **{item.name}** | a \\| b |",
+			]);
+			expect(code).to.match(
+				/<thead>\n\s*<tr>\n\s*<th>Name<\/th>\n\s*<th style=\{\{ textAlign: "right" \}\}>Price<\/th>/
+			);
+			expect(code).to.contain("<td><strong>{item.name}</strong></td>");
+			expect(code).to.contain(
+				'<td style={{ textAlign: "right" }}>a | b</td>'
+			);
+		});
+	});
+
+	describe("directive errors", () => {
+		const text = [
+			"Page()",
+			":fro item in items",
+			"  - {item}",
+			"  :empty",
+			"    None",
+			":fetch users frm /api/users",
+			"  :loading",
+			"    Loading",
+			":form",
+			"  :input",
+			"# After",
+		].join("\n");
+
+		it("suggests the directive a misspelled name was meant to be", () => {
+			const { diagnostics } = parseLunor(text);
+			expect(diagnostics[0]).to.deep.include({
+				code: "UnknownDirective",
+				message: "Unknown directive :fro, did you mean :for?",
+				range: {
+					start: { line: 1, character: 0 },
+					end: { line: 1, character: 4 },
+				},
+			});
+		});
+
+		it("reports the arguments of a malformed directive", () => {
+			const { diagnostics } = parseLunor(text);
+			expect(diagnostics.map((d) => d.code)).to.deep.equal([
+				"UnknownDirective",
+				"MalformedDirective",
+			]);
+			expect(diagnostics[1].message).to.equal(
+				"Malformed :fetch, expected :fetch name from url"
+			);
+			expect(diagnostics[1].range).to.deep.equal({
+				start: { line: 5, character: 7 },
+				end: { line: 5, character: 27 },
+			});
+		});
+
+		it("keeps nested lines in the broken block and parses siblings", () => {
+			const { ast, component } = parseLunor(text);
+			expect(ast.map((n) => n.type)).to.deep.equal([
+				"Invalid",
+				"Invalid",
+				"Component",
+				"Markdown",
+			]);
+			expect(ast[0]).to.include({ directive: "for", endLine: 4 });
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).not.to.contain("<fro");
+			expect(code).not.to.contain("<fetch");
+			expect(code).to.contain("<form >");
+			expect(code).to.contain("<h1>After</h1>");
+		});
+
+		it("reports an invalid :state or :data value once", () => {
+			for (const line of [":state x=abc", ":data items=[1,"]) {
+				const { ast, diagnostics } = parseLunor(
+					["Page()", line].join("\n")
+				);
+				expect(diagnostics).to.have.length(1);
+				expect(diagnostics[0].code).to.be.oneOf([
+					"InvalidStateValue",
+					"InvalidDataValue",
+				]);
+				expect(ast[0].type).to.equal("Invalid");
+			}
+		});
+
+		it("only warns about a misspelling that is a valid component line", () => {
+			const { ast, diagnostics, component } = parseLunor(
+				["Page()", ":date value={day}", ":empyt"].join("\n")
+			);
+			expect(diagnostics.map((d) => [d.code, d.severity])).to.deep.equal([
+				["UnknownDirective", DiagnosticSeverity.Warning],
+				["UnknownDirective", DiagnosticSeverity.Warning],
+			]);
+			expect(diagnostics[0].message).to.equal(
+				"Unknown directive :date, did you mean :data?"
+			);
+			expect(ast.map((n) => n.type)).to.deep.equal([
+				"Component",
+				"Component",
+			]);
+			const code = generateReactCode(ast, component, "/nonexistent");
+			expect(code).to.contain("<date value={day}");
+		});
+
+		it("leaves HTML elements and unrelated names alone", () => {
+			const { diagnostics } = parseLunor(
+				["Page()", ":form", ":icon", ":i", ":date-picker"].join("\n")
+			);
+			expect(diagnostics).to.be.empty;
+		});
+	});
 });
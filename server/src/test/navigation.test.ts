@@ -0,0 +1,65 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* eslint-env mocha */
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import {
+	componentNameAt,
+	findComponentDefinition,
+	findComponentReferences,
+} from "../navigation";
+
+describe("component navigation", () => {
+	let root: string;
+
+	beforeEach(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), "lunor-nav-"));
+		fs.mkdirSync(path.join(root, "components"));
+		fs.writeFileSync(
+			path.join(root, "components", "RecipeCard.lnr"),
+			"RecipeCard(title: string)\n# {title}"
+		);
+		fs.writeFileSync(
+			path.join(root, "Home.lnr"),
+			[
+				"Home()",
+				":for recipe in recipes",
+				"  :RecipeCard title={recipe.title}",
+				":Routes",
+				'  :Route path="/" element={RecipeCard}',
+			].join("\n")
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	it("finds the component name under the cursor", () => {
+		expect(componentNameAt("  :RecipeCard title={x}", 2, 6)).to.equal(
+			"RecipeCard"
+		);
+		expect(componentNameAt(":for item in items", 1, 2)).to.be.null;
+		expect(componentNameAt("RecipeCard(title: string)", 0, 3)).to.equal(
+			"RecipeCard"
+		);
+	});
+
+	it("resolves the defining file", () => {
+		const location = findComponentDefinition("RecipeCard", root);
+		expect(location?.uri).to.equal(
+			URI.file(path.join(root, "components", "RecipeCard.lnr")).toString()
+		);
+		expect(location?.range.start.line).to.equal(0);
+	});
+
+	it("lists usages across the workspace", () => {
+		const references = findComponentReferences("RecipeCard", root);
+		expect(references.map((r) => r.range.start)).to.deep.equal([
+			{ line: 2, character: 3 },
+			{ line: 4, character: 27 },
+		]);
+	});
+});
@@ -0,0 +1,169 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* eslint-env mocha */
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+	Range,
+	type TextDocumentEdit,
+	type RenameFile,
+} from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+import { renameComponent, renameLocalSymbol, renameTargetAt } from "../rename";
+
+describe("rename", () => {
+	const page = [
+		"Counter(start: number)",
+		":state count=0",
+		":data items=[]",
+		":if count > start",
+		"  # {count} of {items.length}",
+		":for item in items",
+		"  :Button onClick={() => setCount(count + 1)}",
+	].join("\n");
+
+	it("renames a state, its uses and its setter", () => {
+		const edits = renameLocalSymbol(page, "count", "total");
+		const doc = TextDocument.create("file.lnr", "lunor", 0, page);
+		const result = TextDocument.applyEdits(doc, edits);
+		expect(result).to.equal(
+			[
+				"Counter(start: number)",
+				":state total=0",
+				":data items=[]",
+				":if total > start",
+				"  # {total} of {items.length}",
+				":for item in items",
+				"  :Button onClick={() => setTotal(total + 1)}",
+			].join("\n")
+		);
+	});
+
+	it("renames uses in :on handlers and :js bodies", () => {
+		const text = [
+			"Counter()",
+			":state count=0",
+			":button",
+			"  :on click => setCount(count + 1)",
+			"  :on dblclick =>",
+			"    setCount(count * 2);",
+			":js",
+			"  const reset = () => setCount(0);",
+			"  const log = () => console.log(count);",
+		].join("\n");
+		const edits = renameLocalSymbol(text, "count", "total");
+		const doc = TextDocument.create("file.lnr", "lunor", 0, text);
+		expect(TextDocument.applyEdits(doc, edits)).to.equal(
+			[
+				"Counter()",
+				":state total=0",
+				":button",
+				"  :on click => setTotal(total + 1)",
+				"  :on dblclick =>",
+				"    setTotal(total * 2);",
+				":js",
+				"  const reset = () => setTotal(0);",
+				"  const log = () => console.log(total);",
+			].join("\n")
+		);
+	});
+
+	it("leaves strings and object keys alone", () => {
+		const text = [
+			"Counter()",
+			":state count=0",
+			':Stat label={"count"} value={count} data={{ count: count }}',
+			"# {`count: ${count}`}",
+		].join("\n");
+		const edits = renameLocalSymbol(text, "count", "total");
+		const doc = TextDocument.create("file.lnr", "lunor", 0, text);
+		expect(TextDocument.applyEdits(doc, edits)).to.equal(
+			[
+				"Counter()",
+				":state total=0",
+				':Stat label={"count"} value={total} data={{ count: total }}',
+				"# {`count: ${total}`}",
+			].join("\n")
+		);
+	});
+
+	it("renames a signature prop", () => {
+		const edits = renameLocalSymbol(page, "start", "from");
+		expect(edits.map((e) => e.range.start)).to.deep.equal([
+			{ line: 0, character: 8 },
+			{ line: 3, character: 12 },
+		]);
+	});
+
+	it("finds the symbol under the cursor", () => {
+		const target = renameTargetAt(page, 5, 14, "");
+		expect(target?.kind).to.equal("local");
+		expect(target?.name).to.equal("items");
+		expect(renameTargetAt(page, 4, 12, "")).to.be.null;
+	});
+
+	describe("components", () => {
+		let root: string;
+
+		beforeEach(() => {
+			root = fs.mkdtempSync(path.join(os.tmpdir(), "lunor-rename-"));
+			fs.writeFileSync(
+				path.join(root, "Card.lnr"),
+				"Card(title: string)\n# {title}"
+			);
+			fs.writeFileSync(
+				path.join(root, "Home.lnr"),
+				'Home()\n:Card title="a"\n:Route path="/" element={Card}'
+			);
+		});
+
+		afterEach(() => {
+			fs.rmSync(root, { recursive: true, force: true });
+		});
+
+		it("renames the signature, usages and the file", () => {
+			const target = renameTargetAt(
+				'Home()\n:Card title="a"',
+				1,
+				2,
+				root
+			);
+			expect(target?.kind).to.equal("component");
+
+			const edit = renameComponent("Card", "Tile", root, {
+				renameFile: true,
+			});
+			const changes = edit.documentChanges!;
+			expect(changes).to.have.lengthOf(3);
+			const home = changes.find(
+				(c) =>
+					"textDocument" in c &&
+					c.textDocument.uri.endsWith("Home.lnr")
+			) as TextDocumentEdit;
+			expect(home.edits).to.have.lengthOf(2);
+			const rename = changes[2] as RenameFile;
+			expect(rename.kind).to.equal("rename");
+			expect(rename.newUri.endsWith("/Tile.lnr")).to.be.true;
+		});
+
+		it("only edits text when the client cannot rename files", () => {
+			const edit = renameComponent("Card", "Tile", root, {
+				renameFile: false,
+			});
+			expect(edit.documentChanges).to.be.undefined;
+			expect(Object.keys(edit.changes!)).to.have.lengthOf(2);
+		});
+
+		it("finds an indented signature name after a BOM", () => {
+			const card = path.join(root, "Card.lnr");
+			fs.writeFileSync(card, "\uFEFF  Card(title: string)\n# {title}");
+			const edit = renameComponent("Card", "Tile", root, {
+				renameFile: false,
+			});
+			const [definition] = edit.changes![URI.file(card).toString()];
+			expect(definition.range).to.deep.equal(Range.create(0, 2, 0, 6));
+		});
+	});
+});
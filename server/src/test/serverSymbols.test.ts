@@ -34,4 +34,27 @@ describe("Document Symbols", () => {
 		expect(comp.children![0].name).to.match(/^for item in items$/);
 		expect(comp.children![1].name).to.match(/^if condition$/);
 	});
+
+	it("Block symbols span their nested lines", () => {
+		const text = [
+			`MainComponent()`,
+			`:for item in items`,
+			`  :div`,
+			`    {item}`,
+			``,
+			`:state count=0`,
+		].join("\n");
+		const [root] = generateDocumentSymbols(text, "file.lnr");
+		const [loop, state] = root.children!;
+		expect(loop.range).to.deep.equal({
+			start: { line: 1, character: 0 },
+			end: { line: 3, character: 10 },
+		});
+		expect(loop.selectionRange).to.deep.equal({
+			start: { line: 1, character: 0 },
+			end: { line: 1, character: 18 },
+		});
+		expect(state.range.start.line).to.equal(5);
+		expect(state.range.end.line).to.equal(5);
+	});
 });
@@ -0,0 +1,40 @@
+/* eslint-env mocha */
+import { expect } from "chai";
+import { extractSourceMap, sourceMarker } from "../parser/sourceMap";
+import {
+	generateReactCode,
+	generateReactCodeWithSourceMap,
+	parseLunor,
+} from "../parser/lunorParser";
+
+describe("source maps", () => {
+	it("strips markers and encodes their positions", () => {
+		const marked = `a\n  ${sourceMarker(3, 2)}b ${sourceMarker(4, 0)}c`;
+		const { code, map } = extractSourceMap(marked, {
+			file: "Foo.tsx",
+			source: "Foo.lnr",
+		});
+		expect(code).to.equal("a\n  b c");
+		expect(map.version).to.equal(3);
+		expect(map.sources).to.deep.equal(["Foo.lnr"]);
+		// line 2: col 2 -> 3:2, then col 4 -> 4:0
+		expect(map.mappings).to.equal(";EAGE,EACF");
+	});
+
+	it("does not change the generated code", () => {
+		const text = ["Home()", ":state count=0", "# Title", "- item"].join(
+			"\n"
+		);
+		const { ast, component, imports } = parseLunor(text);
+		const plain = generateReactCode(ast, component, "/tmp", imports);
+		const { code, map } = generateReactCodeWithSourceMap(
+			ast,
+			component,
+			"/tmp",
+			imports,
+			{ file: "Home.tsx", source: "Home.lnr" }
+		);
+		expect(code).to.equal(plain);
+		expect(map.mappings).to.not.equal("");
+	});
+});
@@ -0,0 +1,104 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* eslint-env mocha */
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { typeCheckLunor } from "../typeCheck";
+
+describe("type checking generated code", function () {
+	// the first program loads the TypeScript lib files
+	this.timeout(20000);
+	let project: string;
+	let root: string;
+
+	beforeEach(() => {
+		project = fs.mkdtempSync(path.join(os.tmpdir(), "lunor-ts-"));
+		root = path.join(project, "lunor");
+		fs.mkdirSync(root);
+		fs.writeFileSync(
+			path.join(project, "tsconfig.json"),
+			JSON.stringify({ compilerOptions: { jsx: "preserve" } })
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(project, { recursive: true, force: true });
+	});
+
+	it("maps type errors back to the Lunor line", () => {
+		const text = ["Home()", ":data count=1", "", "# {count.foo}"].join(
+			"\n"
+		);
+		const diagnostics = typeCheckLunor(
+			text,
+			path.join(root, "Home.lnr"),
+			root
+		);
+		expect(diagnostics).to.have.lengthOf(1);
+		expect(diagnostics[0].code).to.equal("TS2339");
+		expect(diagnostics[0].range.start).to.deep.equal({
+			line: 3,
+			character: 9,
+		});
+		expect(diagnostics[0].range.end).to.deep.equal({
+			line: 3,
+			character: 12,
+		});
+	});
+
+	it("checks props of other Lunor components", () => {
+		fs.writeFileSync(
+			path.join(root, "Card.lnr"),
+			"Card(title: string)\n# {title}"
+		);
+		const text = ["Home()", ":Card title={42}"].join("\n");
+		const diagnostics = typeCheckLunor(
+			text,
+			path.join(root, "Home.lnr"),
+			root
+		);
+		expect(diagnostics).to.have.lengthOf(1);
+		expect(diagnostics[0].range.start.line).to.equal(1);
+	});
+
+	it("regenerates another component once it changes", () => {
+		const card = path.join(root, "Card.lnr");
+		fs.writeFileSync(card, "Card(title: string)\n# {title}");
+		const text = ["Home()", ":Card title={42}"].join("\n");
+		const home = path.join(root, "Home.lnr");
+		expect(typeCheckLunor(text, home, root)).to.have.lengthOf(1);
+		fs.writeFileSync(card, "Card(title: number)\n# {title}");
+		// a later mtime, also on file systems with coarse timestamps
+		const later = new Date(Date.now() + 10000);
+		fs.utimesSync(card, later, later);
+		expect(typeCheckLunor(text, home, root)).to.be.empty;
+	});
+
+	it("reads components open in the editor from their unsaved text", () => {
+		const card = path.join(root, "Card.lnr");
+		fs.writeFileSync(card, "Card(title: string)\n# {title}");
+		const text = ["Home()", ":Card title={42}"].join("\n");
+		const diagnostics = typeCheckLunor(
+			text,
+			path.join(root, "Home.lnr"),
+			root,
+			undefined,
+			(file) =>
+				file === card
+					? { version: 2, text: "Card(title: number)\n# {title}" }
+					: undefined
+		);
+		expect(diagnostics).to.be.empty;
+	});
+
+	it("skips projects without a tsconfig.json", () => {
+		fs.unlinkSync(path.join(project, "tsconfig.json"));
+		const diagnostics = typeCheckLunor(
+			"Home()\n# {missing}",
+			path.join(root, "Home.lnr"),
+			root
+		);
+		expect(diagnostics).to.be.empty;
+	});
+});
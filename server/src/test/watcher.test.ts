@@ -0,0 +1,67 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* eslint-env mocha */
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createWatchSession, type WatchSession } from "../watcher";
+
+describe("watch session", () => {
+	let project: string;
+	let root: string;
+	let outDir: string;
+	let session: WatchSession;
+
+	function write(rel: string, text: string) {
+		const file = path.join(root, rel);
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		fs.writeFileSync(file, text);
+		return file;
+	}
+
+	beforeEach(() => {
+		project = fs.mkdtempSync(path.join(os.tmpdir(), "lunor-watch-"));
+		root = path.join(project, "lunor");
+		outDir = path.join(project, "src");
+		write("components/Card.lnr", "Card(title: string)\n# {title}");
+		write("Home.lnr", 'Home()\n:Card title="Hi"');
+		write("About.lnr", "About()\n# About");
+		session = createWatchSession({ root, outDir });
+		session.compileAll();
+	});
+
+	afterEach(() => {
+		fs.rmSync(project, { recursive: true, force: true });
+	});
+
+	it("compiles every file into the output folder", () => {
+		expect(fs.existsSync(path.join(outDir, "Home.tsx"))).to.be.true;
+		expect(fs.existsSync(path.join(outDir, "About.tsx"))).to.be.true;
+		expect(fs.existsSync(path.join(outDir, "components", "Card.tsx"))).to.be
+			.true;
+	});
+
+	it("recompiles only the changed file when the signature is unchanged", () => {
+		const card = write(
+			"components/Card.lnr",
+			"Card(title: string)\n## {title}"
+		);
+		expect(session.fileChanged(card)).to.deep.equal([card]);
+	});
+
+	it("recompiles dependents when the signature changes", () => {
+		const card = write(
+			"components/Card.lnr",
+			"Card(title: string, image?: string)\n# {title}"
+		);
+		const compiled = session.fileChanged(card);
+		expect(compiled).to.deep.equal([card, path.join(root, "Home.lnr")]);
+	});
+
+	it("deletes orphaned output when a file is removed", () => {
+		const about = path.join(root, "About.lnr");
+		fs.unlinkSync(about);
+		session.fileRemoved(about);
+		expect(fs.existsSync(path.join(outDir, "About.tsx"))).to.be.false;
+	});
+});
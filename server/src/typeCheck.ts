@@ -0,0 +1,262 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as ts from "typescript";
+import { DiagnosticSeverity } from "vscode-languageserver";
+import {
+	discoverComponentFiles,
+	generateReactCode,
+	generateReactCodeWithSourceMap,
+	parseLunor,
+} from "./parser/lunorParser";
+import { decodeMappings, originalPositionFor } from "./parser/sourceMap";
+import type { Diagnostic, ParseResult } from "./parser/types";
+import { defaultOutDir, outputPathFor } from "./compiler";
+
+// Reused between runs so lib and node_modules files are parsed only once
+let previousProgram: ts.Program | undefined;
+
+// Generated code of other .lnr files, by path. An entry is reused while the
+// file's stamp (its open version or its mtime) and the workspace's component
+// map are unchanged.
+const generatedFiles = new Map<
+	string,
+	{ stamp: string; components: string; code: string }
+>();
+
+// Text and version of a .lnr file open in the editor, if it is open
+export type OpenLunorFile = (
+	file: string
+) => { version: number; text: string } | undefined;
+
+function readConfig(configPath: string): ts.ParsedCommandLine | null {
+	const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+	if (error) {
+		return null;
+	}
+	return ts.parseJsonConfigFileContent(
+		config,
+		ts.sys,
+		path.dirname(configPath),
+		undefined,
+		configPath
+	);
+}
+
+/**
+ * Load compiler options from the closest `tsconfig.json`. A solution-style
+ * config (only `references`, as Vite creates it) is followed to the
+ * referenced config that enables JSX. Returns null without a tsconfig.
+ */
+export function loadCompilerOptions(
+	fromDir: string
+): ts.CompilerOptions | null {
+	const configPath = ts.findConfigFile(
+		fromDir,
+		ts.sys.fileExists,
+		"tsconfig.json"
+	);
+	if (!configPath) {
+		return null;
+	}
+	const parsed = readConfig(configPath);
+	if (!parsed) {
+		return null;
+	}
+	let options = parsed.options;
+	if (options.jsx === undefined) {
+		for (const ref of parsed.projectReferences ?? []) {
+			const refPath = ts.resolveProjectReferencePath(ref);
+			const refConfig = fs.existsSync(refPath)
+				? readConfig(refPath)
+				: null;
+			if (refConfig?.options.jsx !== undefined) {
+				options = refConfig.options;
+				break;
+			}
+		}
+	}
+	return {
+		...options,
+		jsx: options.jsx ?? ts.JsxEmit.ReactJSX,
+		noEmit: true,
+		composite: false,
+		incremental: false,
+	};
+}
+
+function toSeverity(category: ts.DiagnosticCategory): number {
+	switch (category) {
+		case ts.DiagnosticCategory.Error:
+			return DiagnosticSeverity.Error;
+		case ts.DiagnosticCategory.Warning:
+			return DiagnosticSeverity.Warning;
+		case ts.DiagnosticCategory.Suggestion:
+			return DiagnosticSeverity.Hint;
+		default:
+			return DiagnosticSeverity.Information;
+	}
+}
+
+/**
+ * Generate the TSX for a Lunor document, type-check it in memory with the
+ * workspace `tsconfig.json` and map the errors back onto the `.lnr` source.
+ * Other Lunor components are compiled in memory as well, so their props
+ * types are checked without generating them first; those open in the editor
+ * are read from `openFile`, unsaved edits included.
+ */
+export function typeCheckLunor(
+	text: string,
+	lunorFile: string,
+	workspaceRoot: string,
+	parsed: ParseResult = parseLunor(text),
+	openFile: OpenLunorFile = () => undefined
+): Diagnostic[] {
+	const outDir = defaultOutDir(workspaceRoot);
+	const virtualFile = outputPathFor(lunorFile, workspaceRoot, outDir);
+	const options = loadCompilerOptions(path.dirname(virtualFile));
+	if (!options) {
+		return [];
+	}
+
+	// scanned once for this file and every component it pulls in
+	const componentFiles = discoverComponentFiles(workspaceRoot);
+	const components = JSON.stringify(componentFiles);
+	const { ast, component, imports } = parsed;
+	const { code, map } = generateReactCodeWithSourceMap(
+		ast,
+		component,
+		workspaceRoot,
+		imports,
+		{ file: path.basename(virtualFile), source: lunorFile },
+		componentFiles
+	);
+
+	// generated code of other .lnr files, keyed by their output path
+	function generatedSource(fileName: string): string | undefined {
+		const abs = path.resolve(fileName);
+		if (abs === virtualFile) {
+			return code;
+		}
+		if (!abs.startsWith(outDir + path.sep) || !abs.endsWith(".tsx")) {
+			return undefined;
+		}
+		const lnr = path
+			.join(workspaceRoot, path.relative(outDir, abs))
+			.replace(/\.tsx$/, ".lnr");
+		const open = openFile(lnr);
+		let stamp: string;
+		if (open) {
+			stamp = `version ${open.version}`;
+		} else {
+			try {
+				stamp = `mtime ${fs.statSync(lnr).mtimeMs}`;
+			} catch {
+				return undefined;
+			}
+		}
+		const cached = generatedFiles.get(lnr);
+		if (cached?.stamp === stamp && cached.components === components) {
+			return cached.code;
+		}
+		const other = parseLunor(open?.text ?? fs.readFileSync(lnr, "utf8"));
+		const generated = generateReactCode(
+			other.ast,
+			other.component,
+			workspaceRoot,
+			other.imports,
+			componentFiles
+		);
+		generatedFiles.set(lnr, { stamp, components, code: generated });
+		return generated;
+	}
+
+	const host = ts.createCompilerHost(options);
+	const { getSourceFile, fileExists, readFile } = host;
+	host.getSourceFile = (fileName, languageVersion, onError, create) => {
+		const source = generatedSource(fileName);
+		return source !== undefined
+			? ts.createSourceFile(
+					fileName,
+					source,
+					languageVersion,
+					true,
+					ts.ScriptKind.TSX
+			  )
+			: getSourceFile.call(
+					host,
+					fileName,
+					languageVersion,
+					onError,
+					create
+			  );
+	};
+	host.fileExists = (fileName) =>
+		generatedSource(fileName) !== undefined ||
+		fileExists.call(host, fileName);
+	host.readFile = (fileName) =>
+		generatedSource(fileName) ?? readFile.call(host, fileName);
+	// the output folder may not exist yet when nothing has been generated
+	const { directoryExists } = host;
+	host.directoryExists = (dirName) => {
+		const abs = path.resolve(dirName);
+		return (
+			abs === outDir ||
+			abs.startsWith(outDir + path.sep) ||
+			(directoryExists?.call(host, dirName) ?? true)
+		);
+	};
+
+	const program = ts.createProgram({
+		rootNames: [virtualFile],
+		options,
+		host,
+		oldProgram: previousProgram,
+	});
+	previousProgram = program;
+	const sourceFile = program.getSourceFile(virtualFile);
+	if (!sourceFile) {
+		return [];
+	}
+
+	const segments = decodeMappings(map.mappings);
+	const lines = text.split(/\r?\n/);
+
+	return [
+		...program.getSyntacticDiagnostics(sourceFile),
+		...program.getSemanticDiagnostics(sourceFile),
+	].map((d): Diagnostic => {
+		let start: ReturnType<typeof originalPositionFor> = null;
+		if (d.start !== undefined) {
+			const { line, character } =
+				sourceFile.getLineAndCharacterOfPosition(d.start);
+			start = originalPositionFor(segments, line, character);
+		}
+		const line = start ? start.line : 0;
+		const lineText = lines[line] ?? "";
+		let startCol = start ? Math.min(start.column, lineText.length) : 0;
+		let endCol = lineText.length;
+		// narrow the range to the offending code if it appears verbatim
+		if (start?.exact && d.start !== undefined && d.length) {
+			const errorText = code
+				.slice(d.start, d.start + d.length)
+				.split("\n")[0];
+			const found = errorText
+				? lineText.indexOf(errorText, startCol)
+				: -1;
+			if (found >= 0) {
+				startCol = found;
+				endCol = found + errorText.length;
+			}
+		}
+		return {
+			message: ts.flattenDiagnosticMessageText(d.messageText, "\n"),
+			line: line + 1,
+			severity: toSeverity(d.category),
+			range: {
+				start: { line, character: startCol },
+				end: { line, character: endCol },
+			},
+			code: `TS${d.code}`,
+		};
+	});
+}
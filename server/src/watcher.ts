@@ -0,0 +1,188 @@
+import * as path from "path";
+import * as fs from "fs";
+import { collectUsedComponents } from "./parser/lunorParser";
+import type { Diagnostic } from "./parser/types";
+import {
+	compileLunor,
+	findLunorFiles,
+	outputPathFor,
+	writeOutput,
+	type SourceMapMode,
+} from "./compiler";
+
+export interface WatchOptions {
+	// the `lunor/` folder
+	root: string;
+	// where generated .tsx files are written
+	outDir: string;
+	sourceMap?: SourceMapMode;
+	onCompiled?: (
+		file: string,
+		outputFile: string,
+		diagnostics: Diagnostic[]
+	) => void;
+	onRemoved?: (file: string, outputFile: string) => void;
+}
+
+export interface WatchSession {
+	/** Compile every file under the root and rebuild the dependency graph. */
+	compileAll(): string[];
+	/** Recompile a changed file and, if its signature changed, its dependents. */
+	fileChanged(file: string): string[];
+	/** Delete the output of a removed file and recompile its dependents. */
+	fileRemoved(file: string): string[];
+	/** Files that use the given component. */
+	dependentsOf(name: string): string[];
+}
+
+interface GraphEntry {
+	// first line of the file, e.g. `RecipeCard(title: string)`
+	signature: string;
+	// component name defined by the signature
+	name: string | null;
+	// component tags used in the file
+	uses: Set<string>;
+}
+
+function signatureOf(text: string): { signature: string; name: string | null } {
+	const signature = text.split(/\r?\n/)[0].trim();
+	// same rule as discoverComponentFiles
+	const m = /^(\w+)\(/.exec(signature);
+	return { signature, name: m ? m[1] : null };
+}
+
+/**
+ * Create a watch session that keeps a dependency graph between Lunor files
+ * and regenerates only what a change affects. Generated imports depend on
+ * the component name of the used file, so a file is recompiled together
+ * with its dependents only when its first-line signature changes.
+ */
+export function createWatchSession(options: WatchOptions): WatchSession {
+	const graph = new Map<string, GraphEntry>();
+
+	function compileFile(file: string): GraphEntry {
+		const text = fs.readFileSync(file, "utf8");
+		const outputFile = outputPathFor(file, options.root, options.outDir);
+		const { ast, code, map, diagnostics } = compileLunor(
+			text,
+			options.root,
+			options.sourceMap && {
+				mode: options.sourceMap,
+				sourceFile: file,
+				outputFile,
+			}
+		);
+		writeOutput(outputFile, code, map);
+		const entry: GraphEntry = {
+			...signatureOf(text),
+			uses: collectUsedComponents(ast),
+		};
+		graph.set(file, entry);
+		options.onCompiled?.(file, outputFile, diagnostics);
+		return entry;
+	}
+
+	function dependentsOf(name: string): string[] {
+		return Array.from(graph.entries())
+			.filter(([, entry]) => entry.uses.has(name))
+			.map(([file]) => file);
+	}
+
+	function recompileDependents(
+		names: (string | null | undefined)[],
+		skip: string
+	): string[] {
+		const files = new Set<string>();
+		for (const name of names) {
+			if (name) {
+				dependentsOf(name).forEach((f) => files.add(f));
+			}
+		}
+		files.delete(skip);
+		const compiled: string[] = [];
+		for (const file of files) {
+			try {
+				compileFile(file);
+				compiled.push(file);
+			} catch {
+				// file vanished between events; its removal is handled separately
+			}
+		}
+		return compiled;
+	}
+
+	function compileAll(): string[] {
+		graph.clear();
+		const files = findLunorFiles(options.root);
+		files.forEach(compileFile);
+		return files;
+	}
+
+	function fileChanged(file: string): string[] {
+		const abs = path.resolve(file);
+		const previous = graph.get(abs);
+		const entry = compileFile(abs);
+		if (previous && previous.signature === entry.signature) {
+			return [abs];
+		}
+		return [abs, ...recompileDependents([previous?.name, entry.name], abs)];
+	}
+
+	function fileRemoved(file: string): string[] {
+		const abs = path.resolve(file);
+		const previous = graph.get(abs);
+		graph.delete(abs);
+		const outputFile = outputPathFor(abs, options.root, options.outDir);
+		if (fs.existsSync(outputFile + ".map")) {
+			fs.unlinkSync(outputFile + ".map");
+		}
+		if (fs.existsSync(outputFile)) {
+			fs.unlinkSync(outputFile);
+			options.onRemoved?.(abs, outputFile);
+		}
+		return recompileDependents([previous?.name], abs);
+	}
+
+	return { compileAll, fileChanged, fileRemoved, dependentsOf };
+}
+
+/**
+ * Watch the session's root folder on disk and feed `.lnr` changes into it.
+ * Events are debounced because editors often write a file in several steps.
+ */
+export function watchLunorFolder(
+	session: WatchSession,
+	root: string,
+	onError: (err: Error) => void = () => {}
+): fs.FSWatcher {
+	const pending = new Set<string>();
+	let timer: NodeJS.Timeout | undefined;
+
+	function flush() {
+		timer = undefined;
+		const files = Array.from(pending);
+		pending.clear();
+		for (const file of files) {
+			try {
+				if (fs.existsSync(file)) {
+					session.fileChanged(file);
+				} else {
+					session.fileRemoved(file);
+				}
+			} catch (err) {
+				onError(err as Error);
+			}
+		}
+	}
+
+	return fs.watch(root, { recursive: true }, (_event, filename) => {
+		if (!filename || !filename.toString().endsWith(".lnr")) {
+			return;
+		}
+		pending.add(path.resolve(root, filename.toString()));
+		if (timer) {
+			clearTimeout(timer);
+		}
+		timer = setTimeout(flush, 50);
+	});
+}